@@ -1,34 +1,114 @@
 #!/usr/bin/env node
 import "dotenv/config";
 import * as fs from "node:fs/promises";
+import * as os from "node:os";
 import * as path from "node:path";
+import { StructuredGenerationError } from "./lib/ai-client.js";
+import { countBarcodes, decodeBarcodes } from "./lib/barcode-reader.js";
 import { classifyPages, filterRelevantPages } from "./lib/classifier.js";
-import { getConfig, getConfigFromEnv } from "./lib/config.js";
 import {
-	groupFilesByPrefix,
+	parseCassetteMode,
+	parseDuplicateAction,
+	parseGroupingMode,
+} from "./lib/config.js";
+import { loadConfig, redactConfig } from "./lib/config-file.js";
+import {
+	looseFileSource,
 	processDocumentGroup,
 } from "./lib/document-grouper.js";
-import { runExtractionPass } from "./lib/extractor-twopass.js";
+import {
+	duplicateGroupOf,
+	findDuplicatePages,
+	fingerprintPages,
+	hashPages,
+	type PageFingerprint,
+} from "./lib/duplicate-detector.js";
+import {
+	loadExtractionExamples,
+	runExtractionPass,
+} from "./lib/extractor-twopass.js";
+import {
+	collectInputGroups,
+	describeSource,
+	findIngestibleFiles,
+} from "./lib/ingestion.js";
+import { SUPPORTED_INPUT_EXTENSIONS } from "./lib/input-loader.js";
+import { missingProviderCredentials } from "./lib/llm-provider.js";
 import { generateExcel, saveAsJSON } from "./lib/output-generator.js";
+import {
+	countSplitPages,
+	describeSplit,
+	splitPages,
+} from "./lib/page-splitter.js";
+import {
+	clearPageStore,
+	configurePageStore,
+	pageStoreUsage,
+	releasePages,
+} from "./lib/page-store.js";
+import { formatBytes, totalPageBytes } from "./lib/pdf-processor.js";
+import { toProcessingError } from "./lib/preflight.js";
+import { countCorrectedPages, preprocessPages } from "./lib/preprocessor.js";
+import { loadPrompts } from "./lib/prompt-registry.js";
+import {
+	type ClassifiedPage,
+	describeGroupingJoins,
+	groupClassification,
+	groupPagesByReferences,
+} from "./lib/reference-grouper.js";
+import { purgeResponseCache } from "./lib/response-cache.js";
 import { transformMultipleToLademittelmahnung } from "./lib/transform.js";
+import {
+	buildUsageReport,
+	emptyTokenUsage,
+	formatCost,
+	sumUsageReports,
+} from "./lib/usage.js";
 import { validateExtraction } from "./lib/validation.js";
 import type {
+	CallAttempt,
+	CassetteMode,
 	ClassificationPassResult,
+	DuplicateAction,
+	DuplicatePage,
+	GroupingMode,
+	GroupingReport,
+	GroupSource,
+	InputGroup,
+	ModelFallback,
+	PDFPage,
+	ProcessingError,
+	PromptName,
+	ReferenceGroup,
+	RepairAttempt,
 	TwoPassConfig,
 	TwoPassExtractionResult,
 	TwoPassLademittelmahnungOutput,
+	UsageReport,
 } from "./types/index.js";
 
 interface TwoPassBatchProcessingResult {
 	groupPrefix: string;
 	inputFiles: string[];
+	// Email or archive the files were unpacked from
+	source: GroupSource;
 	success: boolean;
 	classification?: ClassificationPassResult;
 	extractions?: TwoPassExtractionResult[];
 	lademittelmahnung?: TwoPassLademittelmahnungOutput[];
-	error?: string;
+	repairAttempts?: RepairAttempt[];
+	callAttempts?: CallAttempt[];
+	fallbacks?: ModelFallback[];
+	usage?: UsageReport;
+	error?: ProcessingError;
 	processingTimeMs: number;
 	needsReview: boolean;
+	// How the pages were joined, with content-based grouping
+	grouping?: ReferenceGroup;
+	// Pages repeating pages seen earlier in the batch
+	duplicates?: DuplicatePage[];
+	// Earlier group this group repeats as a whole
+	duplicateOf?: string | null;
 }
 
 interface TwoPassBatchSummary {
@@ -37,13 +117,43 @@ interface TwoPassBatchSummary {
 	successCount: number;
 	failureCount: number;
 	needsReviewCount: number;
+	grouping: GroupingMode;
+	duplicates: {
+		enabled: boolean;
+		action: DuplicateAction;
+		pages: DuplicatePage[];
+		groups: Array<{ group: string; duplicateOf: string }>;
+	};
+	usage: UsageReport;
+	promptVersions: Record<PromptName, string>;
 	results: TwoPassBatchProcessingResult[];
 }
 
-function parseArgs(): { input: string; output: string } {
+function parseArgs(): {
+	input: string;
+	output: string;
+	configPath?: string;
+	cassette?: CassetteMode;
+	noCache: boolean;
+	purgeCache: boolean;
+	ensemble: boolean;
+	grouping?: GroupingMode;
+	groupingProfile?: string;
+	explainGrouping: boolean;
+	duplicates?: string;
+} {
 	const args = process.argv.slice(2);
 	let input = "";
 	let output = "";
+	let configPath: string | undefined;
+	let cassette: CassetteMode | undefined;
+	let noCache = false;
+	let purgeCache = false;
+	let ensemble = false;
+	let grouping: GroupingMode | undefined;
+	let groupingProfile: string | undefined;
+	let explainGrouping = false;
+	let duplicates: string | undefined;
 
 	for (let i = 0; i < args.length; i++) {
 		if (args[i] === "--input" || args[i] === "-i") {
@@ -52,75 +162,286 @@ function parseArgs(): { input: string; output: string } {
 		} else if (args[i] === "--output" || args[i] === "-o") {
 			output = args[i + 1] || "";
 			i++;
+		} else if (args[i] === "--config" || args[i] === "-c") {
+			configPath = args[i + 1] || "";
+			i++;
+		} else if (args[i] === "--cassette") {
+			cassette = parseCassetteMode(args[i + 1] || "");
+			i++;
+		} else if (args[i] === "--no-cache") {
+			noCache = true;
+		} else if (args[i] === "--purge-cache") {
+			purgeCache = true;
+		} else if (args[i] === "--ensemble") {
+			ensemble = true;
+		} else if (args[i] === "--grouping") {
+			grouping = parseGroupingMode(args[i + 1] || "");
+			i++;
+		} else if (args[i] === "--grouping-profile") {
+			groupingProfile = args[i + 1] || "";
+			i++;
+		} else if (args[i] === "--explain-grouping") {
+			explainGrouping = true;
+		} else if (args[i] === "--duplicates") {
+			duplicates = args[i + 1] || "";
+			i++;
 		}
 	}
 
 	if (!input) {
 		console.error(
-			"Usage: pnpm extract:batch -- --input <directory> [--output <directory>]",
+			"Usage: pnpm extract:batch -- --input <directory> [--output <directory>] [--config <file>] [--cassette <record|replay>] [--no-cache] [--purge-cache] [--ensemble] [--grouping <prefix|references>] [--grouping-profile <name>] [--explain-grouping] [--duplicates <off|flag|drop>]",
 		);
 		process.exit(1);
 	}
 
-	if (!output) {
-		output = "./output";
-	}
-
-	return { input, output };
+	return {
+		input,
+		output,
+		configPath,
+		cassette,
+		noCache,
+		purgeCache,
+		ensemble,
+		grouping,
+		groupingProfile,
+		explainGrouping,
+		duplicates,
+	};
 }
 
-async function findPDFFiles(dirPath: string): Promise<string[]> {
-	const absolutePath = path.resolve(dirPath);
-	const entries = await fs.readdir(absolutePath, { withFileTypes: true });
+/**
+ * A group's pages after rendering, splitting, preprocessing, barcode
+ * reading and classification
+ */
+interface ClassifiedGroup {
+	prefix: string;
+	files: string[];
+	source: GroupSource;
+	pages: PDFPage[];
+	// File each page came from, in the order of pages
+	origins: string[];
+	classification: ClassificationPassResult;
+	grouping?: ReferenceGroup;
+	duplicates?: DuplicatePage[];
+	duplicateOf?: string | null;
+	// Pages the classification cost was spent on, if not just `pages`
+	usagePages?: number;
+}
 
-	const pdfFiles: string[] = [];
-	for (const entry of entries) {
-		if (entry.isFile() && entry.name.toLowerCase().endsWith(".pdf")) {
-			pdfFiles.push(path.join(absolutePath, entry.name));
+// The file of each page after splitting: the parts of a split scan come
+// from the file of the scan
+function splitPageOrigins(pages: PDFPage[], pageFiles: string[]): string[] {
+	let index = -1;
+	return pages.map((page) => {
+		if (!page.split || page.split.part === 1) {
+			index++;
 		}
-	}
+		return pageFiles[index];
+	});
+}
 
-	return pdfFiles.sort();
+function logGroupHeader(
+	label: string,
+	prefix: string,
+	files: string[],
+	source: GroupSource,
+): void {
+	console.log(`\n${label}: ${prefix} (${files.length} file(s))`);
+	const origin = describeSource(source);
+	if (origin) {
+		console.log(`  ${origin}`);
+	}
+	for (const file of files) {
+		console.log(`  - ${path.basename(file)}`);
+	}
 }
 
-async function processGroup(
+/**
+ * Steps 1-2: render the group's files and classify their pages. Page
+ * images are released if this fails.
+ */
+async function classifyGroup(
 	prefix: string,
 	files: string[],
-	outputDir: string,
+	source: GroupSource,
 	config: TwoPassConfig,
-): Promise<TwoPassBatchProcessingResult> {
-	const startTime = Date.now();
+): Promise<ClassifiedGroup> {
+	// Step 1: Render PDFs and scans to page images
+	let { pages, pageFiles } = await processDocumentGroup(
+		prefix,
+		files,
+		config,
+		source,
+	);
 
 	try {
-		console.log(`\nProcessing group: ${prefix} (${files.length} file(s))`);
-		for (const file of files) {
-			console.log(`  - ${path.basename(file)}`);
+		console.log(
+			`  Total pages: ${pages.length} (${formatBytes(totalPageBytes(pages))})`,
+		);
+
+		pages = await preprocessPages(pages, config);
+		if (config.preprocessing.enabled) {
+			console.log(
+				`  Preprocessed: ${countCorrectedPages(pages)} page(s) corrected`,
+			);
 		}
 
-		// Step 1: Process PDFs to images
-		const group = await processDocumentGroup(prefix, files);
-		console.log(`  Total pages: ${group.pages.length}`);
+		// Splitting looks for a straight gutter, so it runs on deskewed pages
+		const pageCount = pages.length;
+		pages = await splitPages(pages, config);
+		if (pages.length > pageCount) {
+			console.log(
+				`  Split: ${countSplitPages(pages)} scan(s) holding several documents, ${pages.length} pages now`,
+			);
+		}
+
+		pages = await decodeBarcodes(pages, config);
+		if (config.barcodes.enabled) {
+			console.log(`  Barcodes: ${countBarcodes(pages)} decoded`);
+		}
+
+		pages = await hashPages(pages, config);
 
 		// Step 2: Classification pass
 		console.log(`  Classifying pages...`);
-		const classification = await classifyPages(group.pages, config);
+		const classification = await classifyPages(pages, config);
 
 		console.log(
 			`  Relevant: ${classification.relevantPages}/${classification.totalPages} pages`,
 		);
+		const ruled = classification.pages.filter((p) => p.source === "rules");
+		if (ruled.length > 0) {
+			console.log(`  Pre-classified by rules: ${ruled.length} page(s)`);
+		}
 
 		// Log classifications briefly
 		for (const pageClass of classification.pages) {
 			const status = pageClass.isRelevant ? "✓" : "✗";
 			console.log(
-				`    Page ${pageClass.pageNumber}: ${status} ${pageClass.documentType}`,
+				`    Page ${pageClass.pageNumber}${describeSplit(pages[pageClass.pageNumber - 1])}: ${status} ${pageClass.documentType}`,
 			);
 		}
 
+		return {
+			prefix,
+			files,
+			source,
+			pages,
+			origins: splitPageOrigins(pages, pageFiles),
+			classification,
+		};
+	} catch (error) {
+		await releasePages(pages);
+		throw error;
+	}
+}
+
+type FailureTallies = Pick<
+	TwoPassBatchProcessingResult,
+	| "repairAttempts"
+	| "callAttempts"
+	| "fallbacks"
+	| "usage"
+	| "grouping"
+	| "duplicates"
+	| "duplicateOf"
+>;
+
+function failedResult(
+	prefix: string,
+	files: string[],
+	source: GroupSource,
+	error: ProcessingError,
+	startTime: number,
+	tallies: FailureTallies = {},
+): TwoPassBatchProcessingResult {
+	console.error(`  Error [${error.code}]: ${error.message}`);
+
+	return {
+		groupPrefix: prefix,
+		inputFiles: files,
+		source,
+		success: false,
+		...tallies,
+		repairAttempts: tallies.repairAttempts ?? [],
+		callAttempts: tallies.callAttempts ?? [],
+		fallbacks: tallies.fallbacks ?? [],
+		error,
+		processingTimeMs: Date.now() - startTime,
+		needsReview: true,
+	};
+}
+
+/**
+ * failedResult for a caught error, keeping the attempts a failed model
+ * call carries
+ */
+function caughtResult(
+	prefix: string,
+	files: string[],
+	source: GroupSource,
+	error: unknown,
+	startTime: number,
+	tallies: FailureTallies = {},
+): TwoPassBatchProcessingResult {
+	const repairAttempts = [...(tallies.repairAttempts ?? [])];
+	const callAttempts = [...(tallies.callAttempts ?? [])];
+	if (error instanceof StructuredGenerationError) {
+		repairAttempts.push(...error.repairAttempts);
+		callAttempts.push(...error.callAttempts);
+	}
+
+	return failedResult(
+		prefix,
+		files,
+		source,
+		toProcessingError(error),
+		startTime,
+		{ ...tallies, repairAttempts, callAttempts },
+	);
+}
+
+/**
+ * Steps 3-6: extract, validate, transform and save a classified group.
+ * The group's page images are released when done.
+ */
+async function extractGroup(
+	group: ClassifiedGroup,
+	outputDir: string,
+	config: TwoPassConfig,
+	startTime: number,
+): Promise<TwoPassBatchProcessingResult> {
+	const {
+		prefix,
+		files,
+		source,
+		classification,
+		grouping,
+		duplicates = [],
+		duplicateOf = null,
+		usagePages = group.pages.length,
+	} = group;
+	// Kept outside the try so failed groups still report what they cost
+	// and which calls were made
+	let usage = buildUsageReport(
+		classification.usage,
+		emptyTokenUsage(),
+		usagePages,
+	);
+	const repairAttempts: RepairAttempt[] = [...classification.repairAttempts];
+	const callAttempts: CallAttempt[] = [...classification.callAttempts];
+	const fallbacks: ModelFallback[] = [...classification.fallbacks];
+
+	try {
 		// Check for no relevant pages
 		if (classification.relevantPages === 0) {
 			const duration = Date.now() - startTime;
-			console.log(`  No pallet-relevant documents found`);
+			console.log(
+				duplicates.some((d) => d.dropped)
+					? `  Only duplicate pages, nothing to extract`
+					: `  No pallet-relevant documents found`,
+			);
 
 			// Save classification for debugging
 			if (config.output.saveClassifications) {
@@ -134,12 +455,19 @@ async function processGroup(
 			return {
 				groupPrefix: prefix,
 				inputFiles: files,
+				source,
 				success: true,
 				classification,
 				extractions: [],
 				lademittelmahnung: [],
+				repairAttempts,
+				callAttempts,
+				fallbacks,
+				usage,
 				processingTimeMs: duration,
 				needsReview: false,
+				duplicates,
+				duplicateOf,
 			};
 		}
 
@@ -148,6 +476,10 @@ async function processGroup(
 			group.pages,
 			classification,
 		);
+		// Only the relevant pages are needed from here on
+		await releasePages(
+			group.pages.filter((page) => !relevantPages.includes(page)),
+		);
 
 		// Step 4: Extraction pass
 		console.log(`  Extracting pallet data...`);
@@ -157,8 +489,36 @@ async function processGroup(
 			config,
 		);
 
+		repairAttempts.push(...extractionResult.repairAttempts);
+		callAttempts.push(...extractionResult.callAttempts);
+		fallbacks.push(...extractionResult.fallbacks);
+		usage = buildUsageReport(
+			classification.usage,
+			extractionResult.usage,
+			usagePages,
+		);
+
 		if (!extractionResult.success) {
-			throw new Error(extractionResult.error || "Extraction failed");
+			return failedResult(
+				prefix,
+				files,
+				source,
+				{
+					code: extractionResult.errorCode ?? "internal_error",
+					message: extractionResult.error || "Extraction failed",
+					file: null,
+				},
+				startTime,
+				{
+					repairAttempts,
+					callAttempts,
+					fallbacks,
+					usage,
+					grouping,
+					duplicates,
+					duplicateOf,
+				},
+			);
 		}
 
 		// Step 5: Validate
@@ -202,10 +562,13 @@ async function processGroup(
 					validatedExtractions.length
 				: 0;
 
-		const needsReview = lademittelmahnungResults.some((r) => r.needsReview);
+		// Flagged duplicates may be counted twice in the combined results
+		const needsReview =
+			lademittelmahnungResults.some((r) => r.needsReview) ||
+			duplicates.some((d) => !d.dropped);
 
 		console.log(
-			`  Complete (${(duration / 1000).toFixed(2)}s) - Confidence: ${(avgConfidence * 100).toFixed(1)}%`,
+			`  Complete (${(duration / 1000).toFixed(2)}s) - Confidence: ${(avgConfidence * 100).toFixed(1)}% - Cost: ${formatCost(usage.total.estimatedCostUsd)}`,
 		);
 
 		if (needsReview) {
@@ -215,27 +578,255 @@ async function processGroup(
 		return {
 			groupPrefix: prefix,
 			inputFiles: files,
+			source,
 			success: true,
 			classification,
 			extractions: validatedExtractions,
 			lademittelmahnung: lademittelmahnungResults,
+			repairAttempts,
+			callAttempts,
+			fallbacks,
+			usage,
 			processingTimeMs: duration,
 			needsReview,
+			grouping,
+			duplicates,
+			duplicateOf,
 		};
 	} catch (error) {
-		const duration = Date.now() - startTime;
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		console.error(`  Error: ${errorMessage}`);
+		return caughtResult(prefix, files, source, error, startTime, {
+			repairAttempts,
+			callAttempts,
+			fallbacks,
+			usage,
+			grouping,
+			duplicates,
+			duplicateOf,
+		});
+	} finally {
+		// Images are only needed while the group is being processed
+		await releasePages(group.pages);
+	}
+}
 
-		return {
-			groupPrefix: prefix,
-			inputFiles: files,
-			success: false,
-			error: errorMessage,
-			processingTimeMs: duration,
-			needsReview: true,
-		};
+/**
+ * Compare a classified group's relevant pages with those seen earlier in
+ * the batch and record the matches on the group. With the drop action,
+ * duplicate pages are taken out of the relevant pages so they are not
+ * extracted; a group that only repeats an earlier one is not extracted
+ * at all.
+ */
+function checkDuplicates(
+	group: ClassifiedGroup,
+	seenPages: PageFingerprint[],
+	config: TwoPassConfig,
+): ClassifiedGroup {
+	if (!config.duplicates.enabled) {
+		return group;
+	}
+
+	const fingerprints = fingerprintPages(
+		group.prefix,
+		group.pages,
+		group.origins,
+		group.classification,
+	);
+	const found = findDuplicatePages(seenPages, fingerprints, config);
+	const duplicateOf = duplicateGroupOf(fingerprints, found);
+	seenPages.push(...fingerprints);
+
+	for (const duplicate of found) {
+		const { group: other, pageNumber } = duplicate.duplicateOf;
+		console.log(
+			`  Duplicate: page ${duplicate.pageNumber} repeats ${other} page ${pageNumber} (${duplicate.match})`,
+		);
 	}
+	if (duplicateOf) {
+		console.log(`  Whole group repeats ${duplicateOf}`);
+	}
+
+	if (config.duplicates.action !== "drop" || found.length === 0) {
+		return { ...group, duplicates: found, duplicateOf };
+	}
+
+	const dropped = new Set(found.map((d) => d.pageNumber));
+	const relevantPageNumbers = group.classification.relevantPageNumbers.filter(
+		(pageNumber) => !dropped.has(pageNumber),
+	);
+	return {
+		...group,
+		classification: {
+			...group.classification,
+			relevantPageNumbers,
+			relevantPages: relevantPageNumbers.length,
+		},
+		duplicates: found.map((d) => ({ ...d, dropped: true })),
+		duplicateOf,
+	};
+}
+
+async function processGroup(
+	prefix: string,
+	files: string[],
+	source: GroupSource,
+	outputDir: string,
+	config: TwoPassConfig,
+	seenPages: PageFingerprint[],
+): Promise<TwoPassBatchProcessingResult> {
+	const startTime = Date.now();
+	logGroupHeader("Processing group", prefix, files, source);
+
+	let group: ClassifiedGroup;
+	try {
+		group = await classifyGroup(prefix, files, source, config);
+	} catch (error) {
+		return caughtResult(prefix, files, source, error, startTime);
+	}
+	return extractGroup(
+		checkDuplicates(group, seenPages, config),
+		outputDir,
+		config,
+		startTime,
+	);
+}
+
+/**
+ * Content-based grouping: classify every file on its own, join relevant
+ * pages across files by shared references, then extract each delivery.
+ * Files without relevant pages get a result of their own. A file's
+ * classification cost is carried by the first delivery holding its pages,
+ * whose per-page cost then also counts the file's skipped pages.
+ */
+async function processByReferences(
+	inputGroups: InputGroup[],
+	outputDir: string,
+	config: TwoPassConfig,
+	seenPages: PageFingerprint[],
+): Promise<{
+	results: TwoPassBatchProcessingResult[];
+	report: GroupingReport;
+}> {
+	const results: TwoPassBatchProcessingResult[] = [];
+	const classifiedPages: ClassifiedPage[] = [];
+	const skippedPages: GroupingReport["skippedPages"] = [];
+	const fileClassifications = new Map<string, ClassificationPassResult>();
+	const fileSources = new Map<string, { source: GroupSource; entry: string }>();
+
+	for (const input of inputGroups) {
+		for (const [i, file] of input.files.entries()) {
+			const startTime = Date.now();
+			const prefix = path.basename(file, path.extname(file));
+			const source = {
+				...input.source,
+				entries: [input.source.entries[i] ?? path.basename(file)],
+			};
+			fileSources.set(file, { source, entry: source.entries[0] });
+			logGroupHeader("Classifying file", prefix, [file], source);
+
+			let group: ClassifiedGroup;
+			try {
+				group = await classifyGroup(prefix, [file], source, config);
+			} catch (error) {
+				results.push(caughtResult(prefix, [file], source, error, startTime));
+				continue;
+			}
+
+			if (group.classification.relevantPages === 0) {
+				results.push(await extractGroup(group, outputDir, config, startTime));
+				continue;
+			}
+
+			fileClassifications.set(file, group.classification);
+			const { relevantPages, metadata } = filterRelevantPages(
+				group.pages,
+				group.classification,
+			);
+			for (const [j, page] of relevantPages.entries()) {
+				classifiedPages.push({ file, page, classification: metadata[j] });
+			}
+			for (const pageClass of group.classification.pages) {
+				if (!pageClass.isRelevant) {
+					skippedPages.push({
+						file,
+						pageNumber: pageClass.pageNumber,
+						reason: `${pageClass.documentType}: ${pageClass.reason}`,
+					});
+				}
+			}
+			await releasePages(
+				group.pages.filter((page) => !relevantPages.includes(page)),
+			);
+		}
+	}
+
+	const clusters = groupPagesByReferences(classifiedPages);
+	console.log(
+		`\nGrouped ${classifiedPages.length} relevant page(s) into ${clusters.length} delivery group(s) by reference`,
+	);
+
+	const charged = new Set<string>();
+	for (const cluster of clusters) {
+		const startTime = Date.now();
+		const { prefix, files } = cluster.group;
+		const sources = files.map((file) => fileSources.get(file));
+		const shared = new Set(
+			sources.map((s) => s?.source.container ?? s?.source.kind),
+		);
+		const first = sources[0]?.source;
+		const source =
+			first && first.kind !== "files" && shared.size === 1
+				? { ...first, entries: sources.map((s) => s?.entry ?? "") }
+				: looseFileSource(files);
+
+		logGroupHeader("Processing delivery", prefix, files, source);
+		for (const line of describeGroupingJoins(cluster.group)) {
+			console.log(`    ${line}`);
+		}
+
+		const fileResults = files
+			.filter((file) => !charged.has(file))
+			.flatMap((file) => {
+				charged.add(file);
+				const result = fileClassifications.get(file);
+				return result ? [result] : [];
+			});
+		const reference = fileClassifications.get(files[0]);
+		const classification = groupClassification(
+			cluster.pages,
+			fileResults,
+			reference?.model ?? config.classification.model,
+			reference?.promptVersion ?? "",
+		);
+
+		const group = checkDuplicates(
+			{
+				prefix,
+				files,
+				source,
+				pages: cluster.pages.map((member) => member.page),
+				origins: cluster.pages.map((member) => member.file),
+				classification,
+				grouping: cluster.group,
+				// The skipped pages of the files charged here were classified too
+				usagePages: fileResults.reduce(
+					(sum, result) => sum + result.totalPages - result.relevantPages,
+					cluster.pages.length,
+				),
+			},
+			seenPages,
+			config,
+		);
+		results.push(await extractGroup(group, outputDir, config, startTime));
+	}
+
+	return {
+		results,
+		report: {
+			mode: "references",
+			groups: clusters.map((cluster) => cluster.group),
+			skippedPages,
+		},
+	};
 }
 
 /**
@@ -282,55 +873,200 @@ function convertToLegacyFormat(
 	}));
 }
 
+/**
+ * Dry run for --explain-grouping: print the groups the batch would form
+ * and why each file is in its group, without rendering or model calls.
+ */
+async function explainInputGroups(
+	input: string,
+	config: TwoPassConfig,
+): Promise<void> {
+	const inputFiles = await findIngestibleFiles(input);
+	// Containers are unpacked to see their contents, then thrown away
+	const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "pallet-grouping-"));
+
+	try {
+		const { groups: inputGroups, failures } = await collectInputGroups(
+			inputFiles,
+			workDir,
+			config,
+		);
+
+		console.log(`\n=== Grouping: ${input} ===`);
+		console.log(`Profile: ${config.grouping.profile ?? "built-in rules"}`);
+		if (config.grouping.mode === "references") {
+			console.log(
+				"Mode: references (files are joined by shared references after classification; the groups below only set their sources)",
+			);
+		}
+		console.log(
+			`${inputFiles.length} input file(s) → ${inputGroups.length} group(s)`,
+		);
+
+		for (const group of inputGroups) {
+			console.log(`\n${group.prefix} (${group.files.length} file(s))`);
+			const origin = describeSource(group.source);
+			if (origin) {
+				console.log(`  ${origin}`);
+			}
+			for (const [i, file] of group.files.entries()) {
+				console.log(`  - ${path.basename(file)}: ${group.reasons[i]}`);
+			}
+		}
+
+		for (const { source, error } of failures) {
+			const { code, message } = toProcessingError(error);
+			console.log(`\n${source.container}: not unpacked [${code}] ${message}`);
+		}
+	} finally {
+		await fs.rm(workDir, { recursive: true, force: true });
+	}
+}
+
 async function main(): Promise<void> {
 	const startTime = Date.now();
 
-	if (!process.env.OPENROUTER_API_KEY) {
-		console.error("Error: OPENROUTER_API_KEY environment variable is not set");
+	const {
+		input,
+		output,
+		configPath,
+		cassette,
+		noCache,
+		purgeCache,
+		ensemble,
+		grouping,
+		groupingProfile,
+		explainGrouping,
+		duplicates,
+	} = parseArgs();
+	const config = await loadConfig(configPath);
+	if (cassette) {
+		config.cassette = { ...config.cassette, mode: cassette };
+	}
+	if (noCache) {
+		config.cache = { ...config.cache, enabled: false };
+	}
+	if (ensemble) {
+		config.ensemble = { ...config.ensemble, enabled: true };
+	}
+	if (grouping) {
+		config.grouping = { ...config.grouping, mode: grouping };
+	}
+	if (groupingProfile) {
+		config.grouping = { ...config.grouping, profile: groupingProfile };
+	}
+	if (duplicates) {
+		config.duplicates =
+			duplicates === "off"
+				? { ...config.duplicates, enabled: false }
+				: {
+						...config.duplicates,
+						enabled: true,
+						action: parseDuplicateAction(duplicates),
+					};
+	}
+	if (explainGrouping) {
+		await explainInputGroups(input, config);
+		return;
+	}
+	if (purgeCache) {
+		await purgeResponseCache(config.cache);
+		console.log(`Purged response cache: ${config.cache.dir}`);
+	}
+
+	const missingCredentials =
+		config.cassette.mode === "replay"
+			? null
+			: missingProviderCredentials(config.provider);
+	if (missingCredentials) {
+		console.error(`Error: ${missingCredentials}`);
 		console.error(
 			"Please create a .env file with your API key or set it in your environment",
 		);
 		process.exit(1);
 	}
 
-	const { input, output } = parseArgs();
-	const config = getConfig(getConfigFromEnv());
+	const prompts = await loadPrompts(config);
+	const examples = await loadExtractionExamples(config);
+	configurePageStore(config);
 
 	const timestamp = Date.now();
-	const outputDir = path.join(output, String(timestamp));
+	// Without --output, output.outputDir (OUTPUT_DIR) applies
+	const outputDir = path.join(
+		output || config.output.outputDir,
+		String(timestamp),
+	);
 
 	console.log(`\n=== Two-Pass Batch Pallet Movement Extraction ===`);
 	console.log(`Input directory:  ${input}`);
 	console.log(`Output directory: ${outputDir}/`);
+	console.log(`Provider: ${config.provider.type}`);
 	console.log(`Classification model: ${config.classification.model}`);
 	console.log(`Extraction model: ${config.extraction.model}`);
+	console.log(
+		`Prompts: ${prompts.classification.id}, ${prompts.extraction.id}`,
+	);
+	console.log(`Few-shot examples: ${examples.length}`);
+	console.log(`Grouping: ${config.grouping.mode}`);
 
-	const pdfFiles = await findPDFFiles(input);
+	const inputFiles = await findIngestibleFiles(input);
 
-	if (pdfFiles.length === 0) {
-		console.error(`\nNo PDF files found in ${input}`);
+	if (inputFiles.length === 0) {
+		console.error(
+			`\nNo input files (${[...SUPPORTED_INPUT_EXTENSIONS, ".eml", ".zip"].join(", ")}) found in ${input}`,
+		);
 		process.exit(1);
 	}
 
-	console.log(`\nFound ${pdfFiles.length} PDF file(s)`);
+	console.log(`\nFound ${inputFiles.length} input file(s)`);
 
-	const fileGroups = groupFilesByPrefix(pdfFiles);
-	console.log(`Grouped into ${fileGroups.size} document group(s)`);
+	// Attachments and archive contents are kept next to the results
+	const { groups: inputGroups, failures } = await collectInputGroups(
+		inputFiles,
+		path.join(outputDir, "unpacked"),
+		config,
+	);
+	if (config.grouping.mode === "prefix") {
+		console.log(`Grouped into ${inputGroups.length} document group(s)`);
+	}
 
 	await fs.mkdir(outputDir, { recursive: true });
+	await saveAsJSON(redactConfig(config), path.join(outputDir, "config.json"));
 
-	const results: TwoPassBatchProcessingResult[] = [];
-	const allLademittelmahnungResults: TwoPassLademittelmahnungOutput[] = [];
-
-	for (const [prefix, files] of fileGroups) {
-		const result = await processGroup(prefix, files, outputDir, config);
-		results.push(result);
+	// Containers that could not be unpacked fail on their own
+	const results: TwoPassBatchProcessingResult[] = failures.map(
+		({ prefix, source, error }) => {
+			const files = [source.container ?? prefix];
+			logGroupHeader("Unpacking failed", prefix, files, source);
+			return caughtResult(prefix, files, source, error, Date.now());
+		},
+	);
+	const seenPages: PageFingerprint[] = [];
 
-		if (result.lademittelmahnung) {
-			allLademittelmahnungResults.push(...result.lademittelmahnung);
+	if (config.grouping.mode === "references") {
+		const grouped = await processByReferences(
+			inputGroups,
+			outputDir,
+			config,
+			seenPages,
+		);
+		results.push(...grouped.results);
+		await saveAsJSON(
+			grouped.report,
+			path.join(outputDir, "grouping_report.json"),
+		);
+	} else {
+		for (const { prefix, files, source } of inputGroups) {
+			results.push(
+				await processGroup(prefix, files, source, outputDir, config, seenPages),
+			);
 		}
 	}
 
+	const allLademittelmahnungResults = results.flatMap(
+		(result) => result.lademittelmahnung ?? [],
+	);
+
 	// Generate Excel if we have results
 	if (allLademittelmahnungResults.length > 0) {
 		console.log("\nGenerating combined Excel file...");
@@ -340,11 +1076,27 @@ async function main(): Promise<void> {
 	}
 
 	const summary: TwoPassBatchSummary = {
-		totalGroups: fileGroups.size,
-		totalFiles: pdfFiles.length,
+		totalGroups: results.length,
+		totalFiles: inputFiles.length,
 		successCount: results.filter((r) => r.success).length,
 		failureCount: results.filter((r) => !r.success).length,
 		needsReviewCount: results.filter((r) => r.needsReview).length,
+		grouping: config.grouping.mode,
+		duplicates: {
+			enabled: config.duplicates.enabled,
+			action: config.duplicates.action,
+			pages: results.flatMap((r) => r.duplicates ?? []),
+			groups: results.flatMap((r) =>
+				r.duplicateOf
+					? [{ group: r.groupPrefix, duplicateOf: r.duplicateOf }]
+					: [],
+			),
+		},
+		usage: sumUsageReports(results.flatMap((r) => (r.usage ? [r.usage] : []))),
+		promptVersions: {
+			classification: prompts.classification.id,
+			extraction: prompts.extraction.id,
+		},
 		results,
 	};
 
@@ -359,6 +1111,14 @@ async function main(): Promise<void> {
 	console.log(`Successful: ${summary.successCount}`);
 	console.log(`Failed: ${summary.failureCount}`);
 	console.log(`Needs review: ${summary.needsReviewCount}`);
+	if (summary.duplicates.pages.length > 0) {
+		console.log(
+			`Duplicates: ${summary.duplicates.pages.length} page(s), ${summary.duplicates.groups.length} whole group(s) (${config.duplicates.action === "drop" ? "dropped" : "flagged"})`,
+		);
+	}
+	console.log(
+		`Tokens: ${summary.usage.total.totalTokens} (est. ${formatCost(summary.usage.total.estimatedCostUsd)}, ${formatCost(summary.usage.costPerPageUsd)}/page)`,
+	);
 
 	// Summary of classifications
 	let totalRelevantPages = 0;
@@ -370,11 +1130,17 @@ async function main(): Promise<void> {
 		}
 	}
 	console.log(`Total pages: ${totalPages} (${totalRelevantPages} relevant)`);
+	console.log(
+		`Peak page memory: ${formatBytes(pageStoreUsage().peakMemoryBytes)} (ceiling ${config.memory.maxPageMemoryMb} MB)`,
+	);
+	await clearPageStore();
 
 	if (summary.failureCount > 0) {
 		console.log(`\nFailed groups:`);
 		for (const result of results.filter((r) => !r.success)) {
-			console.log(`  - ${result.groupPrefix}: ${result.error}`);
+			console.log(
+				`  - ${result.groupPrefix} [${result.error?.code}]: ${result.error?.message}`,
+			);
 		}
 	}
 
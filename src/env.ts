@@ -4,7 +4,7 @@ import { z } from "zod";
 
 export const env = createEnv({
 	server: {
-		OPENROUTER_API_KEY: z.string().min(1),
+		OPENROUTER_API_KEY: z.string().min(1).optional(),
 		OPENROUTER_MODEL: z.string().default("google/gemini-2.5-pro"),
 		CLASSIFICATION_PROMPT_BASE64: z.string().optional(),
 		EXTRACTION_PROMPT_BASE64: z.string().optional(),
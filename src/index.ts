@@ -2,22 +2,64 @@
 import "dotenv/config";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import { countBarcodes, decodeBarcodes } from "./lib/barcode-reader.js";
 import { classifyPages, filterRelevantPages } from "./lib/classifier.js";
-import { getConfig, getConfigFromEnv } from "./lib/config.js";
-import { runExtractionPass } from "./lib/extractor-twopass.js";
+import { parseCassetteMode } from "./lib/config.js";
+import { loadConfig, redactConfig } from "./lib/config-file.js";
+import {
+	describeSegment,
+	segmentDeliveries,
+} from "./lib/delivery-segmenter.js";
+import {
+	loadExtractionExamples,
+	runSegmentedExtraction,
+} from "./lib/extractor-twopass.js";
+import { loadInput } from "./lib/input-loader.js";
+import { missingProviderCredentials } from "./lib/llm-provider.js";
 import { saveAsJSON } from "./lib/output-generator.js";
-import { processPDF } from "./lib/pdf-processor.js";
+import {
+	countSplitPages,
+	describeSplit,
+	splitPages,
+} from "./lib/page-splitter.js";
+import { configurePageStore, releasePages } from "./lib/page-store.js";
+import { formatBytes, totalPageBytes } from "./lib/pdf-processor.js";
+import { toProcessingError } from "./lib/preflight.js";
+import { countCorrectedPages, preprocessPages } from "./lib/preprocessor.js";
+import { loadPrompts } from "./lib/prompt-registry.js";
+import { purgeResponseCache } from "./lib/response-cache.js";
 import { transformToLademittelmahnung } from "./lib/transform.js";
+import {
+	addTokenUsage,
+	buildUsageReport,
+	emptyTokenUsage,
+	formatCost,
+} from "./lib/usage.js";
 import { validateExtraction } from "./lib/validation.js";
 import type {
+	CassetteMode,
+	TwoPassExtractionResult,
 	TwoPassLademittelmahnungOutput,
 	TwoPassProcessingResult,
 } from "./types/index.js";
 
-function parseArgs(): { input: string; output: string } {
+function parseArgs(): {
+	input: string;
+	output: string;
+	configPath?: string;
+	cassette?: CassetteMode;
+	noCache: boolean;
+	purgeCache: boolean;
+	ensemble: boolean;
+} {
 	const args = process.argv.slice(2);
 	let input = "";
 	let output = "";
+	let configPath: string | undefined;
+	let cassette: CassetteMode | undefined;
+	let noCache = false;
+	let purgeCache = false;
+	let ensemble = false;
 
 	for (let i = 0; i < args.length; i++) {
 		if (args[i] === "--input" || args[i] === "-i") {
@@ -26,49 +68,110 @@ function parseArgs(): { input: string; output: string } {
 		} else if (args[i] === "--output" || args[i] === "-o") {
 			output = args[i + 1] || "";
 			i++;
+		} else if (args[i] === "--config" || args[i] === "-c") {
+			configPath = args[i + 1] || "";
+			i++;
+		} else if (args[i] === "--cassette") {
+			cassette = parseCassetteMode(args[i + 1] || "");
+			i++;
+		} else if (args[i] === "--no-cache") {
+			noCache = true;
+		} else if (args[i] === "--purge-cache") {
+			purgeCache = true;
+		} else if (args[i] === "--ensemble") {
+			ensemble = true;
 		}
 	}
 
 	if (!input) {
 		console.error(
-			"Usage: pnpm extract -- --input <pdf-file> [--output <json-file>]",
+			"Usage: pnpm extract -- --input <pdf|tiff|jpeg|png|heic file> [--output <json-file>] [--config <file>] [--cassette <record|replay>] [--no-cache] [--purge-cache] [--ensemble]",
 		);
 		process.exit(1);
 	}
 
-	if (!output) {
-		const basename = path.basename(input, ".pdf");
-		output = path.join("./output", `${basename}_result.json`);
-	}
+	return {
+		input,
+		output,
+		configPath,
+		cassette,
+		noCache,
+		purgeCache,
+		ensemble,
+	};
+}
 
-	return { input, output };
+function logExtraction(extraction: TwoPassExtractionResult): void {
+	console.log(`\nPallet Type: ${extraction.palletType}`);
+	console.log(`  Pickup: ${extraction.pickup.location || "Unknown"}`);
+	console.log(`    Date: ${extraction.pickup.date || "Unknown"}`);
+	console.log(`    übernommen: ${extraction.pickup.übernommen}`);
+	console.log(`  Delivery: ${extraction.delivery.location || "Unknown"}`);
+	console.log(`    Date: ${extraction.delivery.date || "Unknown"}`);
+	console.log(`    überlassen: ${extraction.delivery.überlassen}`);
+	console.log(`    übernommen: ${extraction.delivery.übernommen}`);
+	console.log(
+		`  Exchanged: ${extraction.exchangeStatus.exchanged ?? "Unknown"}`,
+	);
+	console.log(`  Saldo: ${extraction.saldo}`);
+	console.log(`  Confidence: ${(extraction.confidence * 100).toFixed(1)}%`);
 }
 
 async function main(): Promise<void> {
 	const startTime = Date.now();
 
-	if (!process.env.OPENROUTER_API_KEY) {
-		console.error("Error: OPENROUTER_API_KEY environment variable is not set");
+	const { input, output, configPath, cassette, noCache, purgeCache, ensemble } =
+		parseArgs();
+	const config = await loadConfig(configPath);
+	if (cassette) {
+		config.cassette = { ...config.cassette, mode: cassette };
+	}
+	if (noCache) {
+		config.cache = { ...config.cache, enabled: false };
+	}
+	if (ensemble) {
+		config.ensemble = { ...config.ensemble, enabled: true };
+	}
+	if (purgeCache) {
+		await purgeResponseCache(config.cache);
+		console.log(`Purged response cache: ${config.cache.dir}`);
+	}
+
+	const missingCredentials =
+		config.cassette.mode === "replay"
+			? null
+			: missingProviderCredentials(config.provider);
+	if (missingCredentials) {
+		console.error(`Error: ${missingCredentials}`);
 		console.error(
 			"Please create a .env file with your API key or set it in your environment",
 		);
 		process.exit(1);
 	}
 
-	const { input, output } = parseArgs();
-	const basename = path.basename(input, ".pdf");
+	const prompts = await loadPrompts(config);
+	const examples = await loadExtractionExamples(config);
+	configurePageStore(config);
+
+	const basename = path.basename(input, path.extname(input));
+	// Without --output, output.outputDir (OUTPUT_DIR) applies
+	const outputPath =
+		output || path.join(config.output.outputDir, `${basename}_result.json`);
 
 	const timestamp = Date.now();
-	const outputDir = path.join(path.dirname(output), String(timestamp));
-	const outputFile = path.join(outputDir, path.basename(output));
+	const outputDir = path.join(path.dirname(outputPath), String(timestamp));
+	const outputFile = path.join(outputDir, path.basename(outputPath));
 
 	await fs.mkdir(outputDir, { recursive: true });
-
-	const config = getConfig(getConfigFromEnv());
+	await saveAsJSON(redactConfig(config), path.join(outputDir, "config.json"));
 
 	console.log(`\n=== Two-Pass Pallet Extraction ===`);
 	console.log(`Input:  ${input}`);
 	console.log(`Output: ${outputDir}/`);
+	console.log(
+		`Prompts: ${prompts.classification.id}, ${prompts.extraction.id}`,
+	);
+	console.log(`Few-shot examples: ${examples.length}`);
 	console.log();
 
 	const result: TwoPassProcessingResult = {
@@ -78,39 +181,89 @@ async function main(): Promise<void> {
 			documentTypesFound: [],
 			totalPages: 0,
 			relevantPages: 0,
+			repairAttempts: [],
+			callAttempts: [],
+			usage: emptyTokenUsage(),
+			cacheHit: false,
+			model: config.classification.model,
+			fallbacks: [],
+			promptVersion: prompts.classification.id,
 		},
 		extractions: [],
 		lademittelmahnung: [],
+		segments: [],
+		repairAttempts: [],
+		callAttempts: [],
+		fallbacks: [],
+		usage: buildUsageReport(emptyTokenUsage(), emptyTokenUsage(), 0),
 		processingTimeMs: 0,
 		success: false,
 	};
 
 	try {
-		// Step 1: Process PDF to images
-		console.log("Step 1: Processing PDF...");
-		const pdfResult = await processPDF(input);
-		console.log(`  Total pages: ${pdfResult.totalPages}`);
+		// Step 1: Render the input to page images
+		console.log("Step 1: Processing input...");
+		const pdfResult = await loadInput(input, config);
+		console.log(
+			`  Total pages: ${pdfResult.totalPages} (${formatBytes(totalPageBytes(pdfResult.pages))})`,
+		);
+
+		const preprocessed = await preprocessPages(pdfResult.pages, config);
+		if (config.preprocessing.enabled) {
+			console.log(
+				`  Preprocessed: ${countCorrectedPages(preprocessed)} page(s) corrected`,
+			);
+		}
+
+		// Splitting looks for a straight gutter, so it runs on deskewed pages
+		const splitResult = await splitPages(preprocessed, config);
+		if (splitResult.length > preprocessed.length) {
+			console.log(
+				`  Split: ${countSplitPages(splitResult)} scan(s) holding several documents, ${splitResult.length} pages now`,
+			);
+		}
+
+		const pages = await decodeBarcodes(splitResult, config);
+		if (config.barcodes.enabled) {
+			console.log(`  Barcodes: ${countBarcodes(pages)} decoded`);
+		}
 
 		// Step 2: Classification pass
 		console.log("\nStep 2: Classifying pages...");
-		const classification = await classifyPages(pdfResult.pages, config);
+		const classification = await classifyPages(pages, config);
 		result.classification = classification;
+		result.repairAttempts.push(...classification.repairAttempts);
+		result.callAttempts.push(...classification.callAttempts);
+		result.fallbacks.push(...classification.fallbacks);
+		result.usage = buildUsageReport(
+			classification.usage,
+			emptyTokenUsage(),
+			pdfResult.totalPages,
+		);
 
 		console.log(
 			`  Relevant pages: ${classification.relevantPages}/${classification.totalPages}`,
 		);
+		const ruled = classification.pages.filter((p) => p.source === "rules");
+		if (ruled.length > 0) {
+			console.log(`  Pre-classified by rules: ${ruled.length} page(s)`);
+		}
 
 		for (const pageClass of classification.pages) {
 			const status = pageClass.isRelevant ? "✓" : "✗";
 			console.log(
-				`    Page ${pageClass.pageNumber}: ${status} ${pageClass.documentType} (${(pageClass.confidence * 100).toFixed(0)}%)`,
+				`    Page ${pageClass.pageNumber}${describeSplit(pages[pageClass.pageNumber - 1])}: ${status} ${pageClass.documentType} (${(pageClass.confidence * 100).toFixed(0)}%)${pageClass.source === "rules" ? " [rules]" : ""}`,
 			);
 		}
 
 		// Step 3: Filter to relevant pages
 		if (classification.relevantPages === 0) {
 			console.log("\n⚠️  No pallet-relevant documents found");
-			result.error = "No pallet-relevant documents found in PDF";
+			result.error = {
+				code: "no_relevant_pages",
+				message: "No pallet-relevant documents found in PDF",
+				file: path.resolve(input),
+			};
 
 			if (config.output.saveClassifications) {
 				const classificationPath = outputFile.replace(
@@ -124,64 +277,123 @@ async function main(): Promise<void> {
 			process.exit(0);
 		}
 
-		const { relevantPages, metadata } = filterRelevantPages(
-			pdfResult.pages,
-			classification,
-		);
+		const segments = segmentDeliveries(classification, config);
+		console.log(`  Deliveries: ${segments.length}`);
+		for (const segment of segments) {
+			console.log(`    Delivery ${segment.index}: ${describeSegment(segment)}`);
+		}
 
-		// Step 4: Extraction pass
+		const { relevantPages } = filterRelevantPages(pages, classification);
+		// Only the relevant pages are needed from here on
+		await releasePages(pages.filter((page) => !relevantPages.includes(page)));
+
+		// Step 4: Extraction pass, once per delivery
 		console.log("\nStep 3: Extracting pallet data...");
-		const extractionResult = await runExtractionPass(
-			relevantPages,
-			metadata,
+		const segmentPasses = await runSegmentedExtraction(
+			pages,
+			classification,
+			segments,
 			config,
 		);
 
-		if (!extractionResult.success) {
-			throw new Error(extractionResult.error || "Extraction failed");
-		}
+		let extractionUsage = emptyTokenUsage();
+		for (const { segment, result: pass } of segmentPasses) {
+			result.repairAttempts.push(...pass.repairAttempts);
+			result.callAttempts.push(...pass.callAttempts);
+			result.fallbacks.push(...pass.fallbacks);
+			extractionUsage = addTokenUsage(extractionUsage, pass.usage);
+
+			if (!pass.success) {
+				const message = pass.error || "Extraction failed";
+				console.error(`  Delivery ${segment.index}: ${message}`);
+				result.segments.push({
+					segment,
+					success: false,
+					extractions: [],
+					lademittelmahnung: [],
+					usage: pass.usage,
+					error: {
+						code: pass.errorCode ?? "internal_error",
+						message,
+						file: null,
+					},
+				});
+				continue;
+			}
 
-		result.extractions = extractionResult.extractions;
+			// Step 5: Validate
+			const validations = pass.extractions.map((e) =>
+				validateExtraction(e, config),
+			);
 
-		// Step 5: Validate
-		console.log("\nStep 4: Validating...");
-		const validations = result.extractions.map((e) =>
-			validateExtraction(e, config),
-		);
+			for (const validation of validations) {
+				if (validation.errors.length > 0) {
+					console.warn(
+						`  Delivery ${segment.index} validation errors (auto-corrected):`,
+						validation.errors,
+					);
+				}
+				if (validation.warnings.length > 0) {
+					console.warn(
+						`  Delivery ${segment.index} warnings:`,
+						validation.warnings,
+					);
+				}
+			}
 
-		for (const validation of validations) {
-			if (validation.errors.length > 0) {
-				console.warn(
-					"  Validation errors (auto-corrected):",
-					validation.errors,
+			const validatedExtractions = validations.map((v) => v.result);
+
+			// Step 6: Transform to output format
+			const lademittelmahnungResults: TwoPassLademittelmahnungOutput[] = [];
+			for (let i = 0; i < validatedExtractions.length; i++) {
+				lademittelmahnungResults.push(
+					transformToLademittelmahnung(
+						validatedExtractions[i],
+						validations[i],
+						config,
+					),
 				);
 			}
-			if (validation.warnings.length > 0) {
-				console.warn("  Warnings:", validation.warnings);
-			}
+
+			result.segments.push({
+				segment,
+				success: true,
+				extractions: validatedExtractions,
+				lademittelmahnung: lademittelmahnungResults,
+				usage: pass.usage,
+			});
 		}
 
-		const validatedExtractions = validations.map((v) => v.result);
+		result.usage = buildUsageReport(
+			classification.usage,
+			extractionUsage,
+			pdfResult.totalPages,
+		);
 
-		// Step 6: Transform to output format
-		console.log("\nStep 5: Generating Lademittelmahnung...");
-		const lademittelmahnungResults: TwoPassLademittelmahnungOutput[] = [];
+		const failed = result.segments.filter((segment) => !segment.success);
+		if (failed.length === segments.length) {
+			throw new Error(failed[0]?.error?.message || "Extraction failed");
+		}
 
-		for (let i = 0; i < validatedExtractions.length; i++) {
-			const lmOutput = transformToLademittelmahnung(
-				validatedExtractions[i],
-				validations[i],
-				config,
+		if (result.repairAttempts.length > 0) {
+			console.warn(
+				`  ${result.repairAttempts.length} response(s) failed schema validation and were repaired`,
 			);
-			lademittelmahnungResults.push(lmOutput);
 		}
 
+		const validatedExtractions = result.segments.flatMap(
+			(segment) => segment.extractions,
+		);
+		const lademittelmahnungResults = result.segments.flatMap(
+			(segment) => segment.lademittelmahnung,
+		);
+		result.extractions = validatedExtractions;
 		result.lademittelmahnung = lademittelmahnungResults;
-		result.success = true;
+		result.success = failed.length === 0;
 		result.processingTimeMs = Date.now() - startTime;
 
 		// Step 7: Save results
-		console.log("\nStep 6: Saving results...");
+		console.log("\nStep 4: Saving results...");
 
 		// Save classification
 		if (config.output.saveClassifications) {
@@ -203,10 +415,20 @@ async function main(): Promise<void> {
 			await saveAsJSON(lademittelmahnungResults, outputFile);
 		}
 
+		// Per-delivery results with their page ranges
+		if (segments.length > 1) {
+			const segmentsPath = outputFile.replace(".json", "_segments.json");
+			await saveAsJSON(result.segments, segmentsPath);
+		}
+
 		const duration = ((Date.now() - startTime) / 1000).toFixed(2);
 		console.log(`\n=== Extraction Complete ===`);
 		console.log(`Duration: ${duration}s`);
+		console.log(`Deliveries: ${segments.length}`);
 		console.log(`Extractions: ${validatedExtractions.length}`);
+		console.log(
+			`Tokens: ${result.usage.total.totalTokens} (est. ${formatCost(result.usage.total.estimatedCostUsd)})`,
+		);
 
 		const needsReviewCount = lademittelmahnungResults.filter(
 			(r) => r.needsReview,
@@ -217,26 +439,32 @@ async function main(): Promise<void> {
 			);
 		}
 
-		for (const extraction of validatedExtractions) {
-			console.log(`\nPallet Type: ${extraction.palletType}`);
-			console.log(`  Pickup: ${extraction.pickup.location || "Unknown"}`);
-			console.log(`    Date: ${extraction.pickup.date || "Unknown"}`);
-			console.log(`    übernommen: ${extraction.pickup.übernommen}`);
-			console.log(`  Delivery: ${extraction.delivery.location || "Unknown"}`);
-			console.log(`    Date: ${extraction.delivery.date || "Unknown"}`);
-			console.log(`    überlassen: ${extraction.delivery.überlassen}`);
-			console.log(`    übernommen: ${extraction.delivery.übernommen}`);
+		if (failed.length > 0) {
 			console.log(
-				`  Exchanged: ${extraction.exchangeStatus.exchanged ?? "Unknown"}`,
+				`\n⚠️  ${failed.length} of ${segments.length} deliveries failed: ${failed.map((f) => `${f.segment.index} (${describeSegment(f.segment)})`).join(", ")}`,
 			);
-			console.log(`  Saldo: ${extraction.saldo}`);
-			console.log(`  Confidence: ${(extraction.confidence * 100).toFixed(1)}%`);
+		}
+
+		for (const { segment, extractions } of result.segments) {
+			if (segments.length > 1 && extractions.length > 0) {
+				console.log(
+					`\n--- Delivery ${segment.index}: ${describeSegment(segment)} ---`,
+				);
+			}
+			for (const extraction of extractions) {
+				logExtraction(extraction);
+			}
 		}
 
 		console.log(`\nResults saved to: ${outputDir}/`);
+		if (failed.length > 0) {
+			process.exitCode = 1;
+		}
 	} catch (error) {
-		console.error("\nError during extraction:", error);
-		result.error = error instanceof Error ? error.message : String(error);
+		result.error = toProcessingError(error);
+		console.error(
+			`\nError during extraction [${result.error.code}]: ${result.error.message}`,
+		);
 		result.success = false;
 		result.processingTimeMs = Date.now() - startTime;
 
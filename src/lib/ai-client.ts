@@ -1,13 +1,29 @@
-import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import { generateText, type LanguageModel } from "ai";
+import {
+	APICallError,
+	generateText,
+	type LanguageModel,
+	type ModelMessage,
+	NoObjectGeneratedError,
+	Output,
+} from "ai";
 import "dotenv/config";
+import type { z } from "zod";
 import { env } from "../env.js";
-
-const openrouter = createOpenRouter({
-	apiKey: env.OPENROUTER_API_KEY,
-});
-
-const model: LanguageModel = openrouter(env.OPENROUTER_MODEL);
+import type {
+	CallAttempt,
+	RepairAttempt,
+	RetryPolicy,
+	TokenUsage,
+	TwoPassConfig,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { createLanguageModel } from "./llm-provider.js";
+import { formatSchemaErrors } from "./schema-errors.js";
+import {
+	addTokenUsage,
+	emptyTokenUsage,
+	fromLanguageModelUsage,
+} from "./usage.js";
 
 export interface AIMessage {
 	role: "user" | "assistant" | "system";
@@ -16,14 +32,25 @@ export interface AIMessage {
 
 export type AIMessageContent =
 	| { type: "text"; text: string }
-	| { type: "image"; image: string }; // base64 or URL
+	| { type: "image"; image: string; mediaType?: string }; // base64 or URL
+
+/**
+ * The legacy model (OPENROUTER_MODEL) on the configured provider, created
+ * per call so the loaded config applies.
+ */
+function legacyModel(config: TwoPassConfig): LanguageModel {
+	return createLanguageModel(env.OPENROUTER_MODEL, config.provider);
+}
 
 export async function analyzeImage(
 	imageBase64: string,
 	prompt: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+	abortSignal?: AbortSignal,
 ): Promise<string> {
 	const { text } = await generateText({
-		model,
+		model: legacyModel(config),
+		abortSignal,
 		messages: [
 			{
 				role: "user",
@@ -41,6 +68,8 @@ export async function analyzeImage(
 export async function analyzeMultipleImages(
 	imagesBase64: string[],
 	prompt: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+	abortSignal?: AbortSignal,
 ): Promise<string> {
 	const content: AIMessageContent[] = [
 		...imagesBase64.map((img) => ({ type: "image" as const, image: img })),
@@ -48,7 +77,8 @@ export async function analyzeMultipleImages(
 	];
 
 	const { text } = await generateText({
-		model,
+		model: legacyModel(config),
+		abortSignal,
 		messages: [
 			{
 				role: "user",
@@ -82,28 +112,335 @@ export function parseJSONResponse<T>(response: string): T {
 	}
 }
 
+export interface StructuredGenerationOptions<T> {
+	model: LanguageModel;
+	modelId: string;
+	content: AIMessageContent[];
+	// Schema for a single element; responses are always normalized to arrays
+	schema: z.ZodType<T>;
+	pass: RepairAttempt["pass"];
+	structuredOutputs: boolean;
+	temperature: number;
+	maxTokens: number;
+	maxRepairAttempts: number;
+	retry: RetryPolicy;
+}
+
+export interface StructuredGenerationResult<T> {
+	data: T[];
+	repairAttempts: RepairAttempt[];
+	callAttempts: CallAttempt[];
+	// Token counts summed over all rounds, without cost
+	usage: TokenUsage;
+}
+
+function validateStructuredResponse<T>(
+	text: string,
+	schema: z.ZodType<T>,
+): { data: T[] } | { errors: string[] } {
+	let parsed: unknown;
+	try {
+		parsed = parseJSONResponse<unknown>(text);
+	} catch (error) {
+		return { errors: [error instanceof Error ? error.message : String(error)] };
+	}
+
+	const elements = Array.isArray(parsed) ? parsed : [parsed];
+	const data: T[] = [];
+	const errors: string[] = [];
+
+	for (let i = 0; i < elements.length; i++) {
+		const result = schema.safeParse(elements[i]);
+		if (result.success) {
+			data.push(result.data);
+		} else {
+			const prefix = elements.length > 1 ? `[${i}] ` : "";
+			errors.push(
+				...formatSchemaErrors(result.error).map((e) => `${prefix}${e}`),
+			);
+		}
+	}
+
+	return errors.length > 0 ? { errors } : { data };
+}
+
+function buildRepairMessage(errors: string[]): string {
+	return [
+		"Your previous response could not be used:",
+		...errors.map((e) => `- ${e}`),
+		"Reply again with only the corrected JSON in the required structure.",
+	].join("\n");
+}
+
+/**
+ * Thrown by generateStructured; carries the attempt history so callers can
+ * report it even when the call ultimately fails.
+ */
+export class StructuredGenerationError extends Error {
+	constructor(
+		message: string,
+		readonly repairAttempts: RepairAttempt[],
+		readonly callAttempts: CallAttempt[],
+		options?: { cause?: unknown },
+	) {
+		super(message, options);
+		this.name = "StructuredGenerationError";
+	}
+}
+
+/**
+ * The model stopped because it hit the token limit, so the JSON is cut off.
+ */
+export class TruncatedOutputError extends Error {
+	constructor() {
+		super("Model output was truncated (finish reason: length)");
+		this.name = "TruncatedOutputError";
+	}
+}
+
+/**
+ * Generate a JSON response validated against a zod schema.
+ * Uses structured output when the provider supports it and sends
+ * validation errors back to the model for up to maxRepairAttempts rounds.
+ */
+export async function generateStructured<T>(
+	options: StructuredGenerationOptions<T>,
+): Promise<StructuredGenerationResult<T>> {
+	const messages: ModelMessage[] = [{ role: "user", content: options.content }];
+	const repairAttempts: RepairAttempt[] = [];
+	const callAttempts: CallAttempt[] = [];
+	let usage = emptyTokenUsage();
+
+	const retryOptions: RetryOptions = {
+		policy: options.retry,
+		onAttempt: (attempt) =>
+			callAttempts.push({
+				pass: options.pass,
+				model: options.modelId,
+				...attempt,
+			}),
+	};
+
+	try {
+		for (let attempt = 0; attempt <= options.maxRepairAttempts; attempt++) {
+			let text: string;
+			let errors: string[];
+
+			try {
+				if (options.structuredOutputs) {
+					const result = await withRetry(
+						(abortSignal) =>
+							generateText({
+								model: options.model,
+								messages,
+								output: Output.array({ element: options.schema }),
+								temperature: options.temperature,
+								maxOutputTokens: options.maxTokens,
+								maxRetries: 0,
+								abortSignal,
+							}),
+						retryOptions,
+					);
+					usage = addTokenUsage(usage, fromLanguageModelUsage(result.usage));
+					return { data: result.output, repairAttempts, callAttempts, usage };
+				}
+
+				const result = await withRetry(async (abortSignal) => {
+					const generated = await generateText({
+						model: options.model,
+						messages,
+						temperature: options.temperature,
+						maxOutputTokens: options.maxTokens,
+						maxRetries: 0,
+						abortSignal,
+					});
+					if (generated.finishReason === "length") {
+						throw new TruncatedOutputError();
+					}
+					return generated;
+				}, retryOptions);
+				text = result.text;
+				usage = addTokenUsage(usage, fromLanguageModelUsage(result.usage));
+
+				const validation = validateStructuredResponse(text, options.schema);
+				if ("data" in validation) {
+					return { data: validation.data, repairAttempts, callAttempts, usage };
+				}
+				errors = validation.errors;
+			} catch (error) {
+				if (!NoObjectGeneratedError.isInstance(error)) {
+					throw error;
+				}
+				if (error.usage) {
+					usage = addTokenUsage(usage, fromLanguageModelUsage(error.usage));
+				}
+				text = error.text ?? "";
+				errors = [
+					error.cause instanceof Error ? error.cause.message : error.message,
+				];
+			}
+
+			repairAttempts.push({
+				pass: options.pass,
+				attempt: attempt + 1,
+				response: text,
+				errors,
+			});
+
+			messages.push(
+				{ role: "assistant", content: text },
+				{ role: "user", content: buildRepairMessage(errors) },
+			);
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new StructuredGenerationError(message, repairAttempts, callAttempts, {
+			cause: error,
+		});
+	}
+
+	const lastErrors = repairAttempts[repairAttempts.length - 1]?.errors ?? [];
+	throw new StructuredGenerationError(
+		`Invalid ${options.pass} response after ${repairAttempts.length} attempt(s): ${lastErrors.join("; ")}`,
+		repairAttempts,
+		callAttempts,
+	);
+}
+
+interface RetryDecision {
+	retryable: boolean;
+	statusCode?: number;
+	retryAfterMs?: number;
+}
+
+function parseRetryAfter(
+	headers: Record<string, string> | undefined,
+): number | undefined {
+	if (!headers) return undefined;
+
+	const retryAfterMs = headers["retry-after-ms"];
+	if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+		return Number(retryAfterMs);
+	}
+
+	const retryAfter = headers["retry-after"];
+	if (!retryAfter) return undefined;
+
+	const seconds = Number(retryAfter);
+	if (!Number.isNaN(seconds)) {
+		return seconds * 1000;
+	}
+
+	const date = Date.parse(retryAfter);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * Decide whether an error is worth retrying.
+ * Retryable: 408, 409, 429, 5xx, network failures, timeouts, truncated output.
+ * Everything else (auth, bad request, unknown errors) fails immediately.
+ */
+export function classifyRetryError(error: unknown): RetryDecision {
+	if (APICallError.isInstance(error)) {
+		const statusCode = error.statusCode;
+		const retryable =
+			statusCode === undefined
+				? error.isRetryable
+				: statusCode === 408 ||
+					statusCode === 409 ||
+					statusCode === 429 ||
+					statusCode >= 500;
+		return {
+			retryable,
+			statusCode,
+			retryAfterMs: parseRetryAfter(error.responseHeaders),
+		};
+	}
+
+	if (error instanceof TruncatedOutputError) {
+		return { retryable: true };
+	}
+
+	if (NoObjectGeneratedError.isInstance(error)) {
+		return { retryable: error.finishReason === "length" };
+	}
+
+	if (
+		error instanceof Error &&
+		(error.name === "TimeoutError" || error.name === "AbortError")
+	) {
+		return { retryable: true };
+	}
+
+	return { retryable: false };
+}
+
+function computeBackoff(policy: RetryPolicy, attempt: number): number {
+	const exponential = Math.min(
+		policy.maxDelayMs,
+		policy.initialDelayMs * 2 ** attempt,
+	);
+	// Jitter between 50% and 100% of the exponential delay
+	return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+export interface RetryOptions {
+	policy?: RetryPolicy;
+	onAttempt?: (attempt: Omit<CallAttempt, "pass" | "model">) => void;
+}
+
 export async function withRetry<T>(
-	fn: () => Promise<T>,
-	maxRetries: number = 3,
-	initialDelayMs: number = 1000,
+	fn: (abortSignal: AbortSignal) => Promise<T>,
+	options: RetryOptions = {},
 ): Promise<T> {
-	let lastError: Error | undefined;
+	const policy = options.policy ?? DEFAULT_CONFIG.retry;
+
+	for (let attempt = 0; ; attempt++) {
+		const startTime = Date.now();
 
-	for (let attempt = 0; attempt < maxRetries; attempt++) {
 		try {
-			return await fn();
+			const result = await fn(AbortSignal.timeout(policy.timeoutMs));
+			options.onAttempt?.({
+				attempt: attempt + 1,
+				durationMs: Date.now() - startTime,
+				outcome: "success",
+			});
+			return result;
 		} catch (error) {
-			lastError = error instanceof Error ? error : new Error(String(error));
-			console.warn(`Attempt ${attempt + 1} failed: ${lastError.message}`);
+			const message = error instanceof Error ? error.message : String(error);
+			const decision = classifyRetryError(error);
+			// A server asking for a longer wait than the policy allows (a
+			// spent quota) would only fail again after a shorter one
+			const waitTooLong =
+				decision.retryAfterMs !== undefined &&
+				decision.retryAfterMs > policy.maxDelayMs;
+			const canRetry =
+				decision.retryable && !waitTooLong && attempt < policy.maxAttempts - 1;
+			const delayMs = canRetry
+				? (decision.retryAfterMs ?? computeBackoff(policy, attempt))
+				: undefined;
 
-			if (attempt < maxRetries - 1) {
-				const delay = initialDelayMs * 2 ** attempt;
-				await new Promise((resolve) => setTimeout(resolve, delay));
+			options.onAttempt?.({
+				attempt: attempt + 1,
+				durationMs: Date.now() - startTime,
+				outcome: canRetry ? "retry" : "failed",
+				error: message,
+				statusCode: decision.statusCode,
+				delayMs,
+			});
+
+			if (!canRetry) {
+				throw error;
 			}
+
+			console.warn(
+				`Attempt ${attempt + 1} failed: ${message} (retrying in ${delayMs}ms)`,
+			);
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
 		}
 	}
-
-	throw lastError;
 }
-
-export { model };
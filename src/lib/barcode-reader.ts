@@ -0,0 +1,315 @@
+import * as fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import sharp from "sharp";
+import {
+	prepareZXingModule,
+	type ReadResult,
+	readBarcodes,
+} from "zxing-wasm/reader";
+import type {
+	BarcodeReference,
+	PageBarcode,
+	PageClassification,
+	PDFPage,
+	TwoPassConfig,
+	TwoPassDocumentType,
+	TwoPassExtractionResult,
+	TwoPassReferences,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { readPageImage } from "./page-store.js";
+
+const require = createRequire(import.meta.url);
+
+// Formats the decoder reads directly; anything else is converted to PNG
+const DECODABLE_MIME_TYPES = new Set(["image/png", "image/jpeg"]);
+const MAX_SYMBOLS_PER_PAGE = 16;
+
+// Which reference a plain barcode most likely encodes, by document type
+const FIELD_BY_DOCUMENT_TYPE: Partial<
+	Record<TwoPassDocumentType, keyof TwoPassReferences>
+> = {
+	dpl_gutschrift: "dplVoucherNr",
+	lieferschein_with_pallets: "lieferscheinNr",
+	lieferschein_product_only: "lieferscheinNr",
+	ladeliste: "ladenummer",
+	ladeschein: "ladenummer",
+	speditions_auftrag: "sendungsnummer",
+};
+
+// GS1 application identifiers carrying a consignment or shipment number;
+// other AIs (SSCC, batch) are kept but not attributed
+const GS1_FIELDS: Record<string, keyof TwoPassReferences> = {
+	"401": "sendungsnummer",
+	"402": "sendungsnummer",
+};
+// GTINs name a product, never a delivery: retail symbologies and the GS1
+// trade item AIs are not reference candidates
+const PRODUCT_CODE_FORMATS = new Set([
+	"EANUPC",
+	"EAN13",
+	"EAN8",
+	"EAN5",
+	"EAN2",
+	"ISBN",
+	"UPCA",
+	"UPCE",
+	"ITF14",
+	"DataBar",
+	"DataBarOmni",
+	"DataBarStk",
+	"DataBarStkOmni",
+	"DataBarLtd",
+]);
+const GS1_PRODUCT_AIS = new Set(["01", "02"]);
+const GS1_ELEMENT = /\((\d{2,4})\)([^(]+)/g;
+
+// A single reference number, not a URL or a block of text
+const REFERENCE_VALUE = /^[A-Z0-9][A-Z0-9\-/.]{3,34}$/i;
+// Shorter digit runs are too likely to coincide
+const MIN_REFERENCE_DIGITS = 4;
+
+let decoderReady: Promise<unknown> | null = null;
+
+/**
+ * Load the decoder from the package's own WASM file; by default zxing-wasm
+ * would fetch it from a CDN.
+ */
+function loadDecoder(): Promise<unknown> {
+	decoderReady ??= fs
+		.readFile(require.resolve("zxing-wasm/reader/zxing_reader.wasm"))
+		.then((wasm) =>
+			prepareZXingModule({
+				overrides: {
+					wasmBinary: wasm.buffer.slice(
+						wasm.byteOffset,
+						wasm.byteOffset + wasm.byteLength,
+					),
+				},
+				fireImmediately: true,
+			}),
+		);
+	return decoderReady;
+}
+
+function toPageBarcode(
+	result: ReadResult,
+	width: number,
+	height: number,
+): PageBarcode {
+	const { topLeft, topRight, bottomLeft, bottomRight } = result.position;
+	const xs = [topLeft.x, topRight.x, bottomLeft.x, bottomRight.x];
+	const ys = [topLeft.y, topRight.y, bottomLeft.y, bottomRight.y];
+	const left = Math.max(0, Math.min(...xs));
+	const top = Math.max(0, Math.min(...ys));
+	return {
+		format: result.format,
+		text: result.text,
+		x: left / width,
+		y: top / height,
+		width: (Math.max(...xs) - left) / width,
+		height: (Math.max(...ys) - top) / height,
+	};
+}
+
+export async function decodePageBarcodes(
+	page: PDFPage,
+): Promise<PageBarcode[]> {
+	await loadDecoder();
+
+	let image: Buffer = await readPageImage(page);
+	if (!DECODABLE_MIME_TYPES.has(page.mimeType)) {
+		image = await sharp(image).png().toBuffer();
+	}
+
+	const results = await readBarcodes(new Uint8Array(image), {
+		tryHarder: true,
+		textMode: "HRI",
+		maxNumberOfSymbols: MAX_SYMBOLS_PER_PAGE,
+	});
+	return results
+		.filter((result) => result.isValid && result.text.trim())
+		.map((result) => toPageBarcode(result, page.width, page.height));
+}
+
+/**
+ * Decode 1D and 2D barcodes on every page. Returns the pages unchanged
+ * when barcode reading is disabled.
+ */
+export async function decodeBarcodes(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFPage[]> {
+	if (!config.barcodes.enabled) {
+		return pages;
+	}
+
+	const decoded: PDFPage[] = [];
+	for (const page of pages) {
+		decoded.push({ ...page, barcodes: await decodePageBarcodes(page) });
+	}
+	return decoded;
+}
+
+export function countBarcodes(pages: PDFPage[]): number {
+	return pages.reduce((sum, page) => sum + page.barcodes.length, 0);
+}
+
+/**
+ * Comparable form of a reference: case, separators and leading zeros
+ * differ between printed text, barcodes and what the model reads.
+ */
+function normalizeReference(value: string): string {
+	return value
+		.toUpperCase()
+		.replace(/[^A-Z0-9]/g, "")
+		.replace(/^0+(?=.)/, "");
+}
+
+/**
+ * Same reference, also when one side carries a letter prefix the other
+ * lacks ("LS-004711" and "4711").
+ */
+function sameReference(a: string, b: string): boolean {
+	if (normalizeReference(a) === normalizeReference(b)) return true;
+	const digitsA = a.replace(/\D/g, "").replace(/^0+/, "");
+	const digitsB = b.replace(/\D/g, "").replace(/^0+/, "");
+	return digitsA.length >= MIN_REFERENCE_DIGITS && digitsA === digitsB;
+}
+
+/**
+ * Reference candidates in one barcode: GS1 element strings are split into
+ * their application identifiers, anything else is taken as a whole if it
+ * looks like a reference number. Product codes yield none.
+ */
+function barcodeValues(
+	barcode: PageBarcode,
+	documentType: TwoPassDocumentType | undefined,
+): Array<{ field: keyof TwoPassReferences | null; value: string }> {
+	if (PRODUCT_CODE_FORMATS.has(barcode.format)) {
+		return [];
+	}
+
+	const elements = [...barcode.text.matchAll(GS1_ELEMENT)];
+	if (elements.length > 0) {
+		return elements
+			.filter(([, ai]) => !GS1_PRODUCT_AIS.has(ai))
+			.map(([, ai, value]) => ({
+				field: GS1_FIELDS[ai] ?? null,
+				value: value.trim(),
+			}));
+	}
+
+	const value = barcode.text.trim();
+	if (!REFERENCE_VALUE.test(value)) {
+		return [];
+	}
+	return [
+		{
+			field: documentType
+				? (FIELD_BY_DOCUMENT_TYPE[documentType] ?? null)
+				: null,
+			value,
+		},
+	];
+}
+
+function matchingField(
+	references: TwoPassReferences,
+	value: string,
+): keyof TwoPassReferences | null {
+	for (const [field, read] of Object.entries(references)) {
+		if (read && sameReference(read, value)) {
+			return field as keyof TwoPassReferences;
+		}
+	}
+	return null;
+}
+
+/**
+ * Attach decoded barcode references to extractions and, if configured,
+ * fill references the model left empty. A barcode whose value equals a
+ * reference the model read is attributed to that reference; others are
+ * attributed by the document type of their page. With several deliveries
+ * in one pass only barcodes matching a delivery's references are attached,
+ * since the rest cannot be told apart.
+ *
+ * `pages` and `classifications` are the relevant pages and their
+ * classifications, in the same order.
+ */
+export function applyBarcodeReferences(
+	extractions: TwoPassExtractionResult[],
+	pages: PDFPage[],
+	classifications: PageClassification[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): TwoPassExtractionResult[] {
+	const decoded = pages.flatMap((page, i) =>
+		page.barcodes.flatMap((barcode) =>
+			barcodeValues(barcode, classifications[i]?.documentType).map(
+				(candidate) => ({
+					...candidate,
+					format: barcode.format,
+					pageNumber: classifications[i]?.pageNumber ?? page.pageNumber,
+				}),
+			),
+		),
+	);
+	if (decoded.length === 0) {
+		return extractions;
+	}
+
+	return extractions.map((extraction) => {
+		const references = { ...extraction.references };
+		const barcodeReferences: BarcodeReference[] = [];
+
+		for (const candidate of decoded) {
+			const matched = matchingField(extraction.references, candidate.value);
+			if (!matched && extractions.length > 1) continue;
+			barcodeReferences.push({
+				...candidate,
+				field: matched ?? candidate.field,
+				filled: false,
+			});
+		}
+
+		if (config.barcodes.fillMissingReferences) {
+			for (const field of Object.keys(references) as Array<
+				keyof TwoPassReferences
+			>) {
+				if (references[field]) continue;
+				const found = barcodeReferences.filter((b) => b.field === field);
+				const values = new Set(found.map((b) => normalizeReference(b.value)));
+				// Two different numbers for the same reference: leave it to review
+				if (values.size !== 1) continue;
+				references[field] = found[0].value;
+				for (const b of found) b.filled = true;
+			}
+		}
+
+		return { ...extraction, references, barcodeReferences };
+	});
+}
+
+/**
+ * Warnings for references whose extracted value differs from every
+ * barcode attributed to that reference.
+ */
+export function findBarcodeMismatches(
+	extraction: TwoPassExtractionResult,
+): string[] {
+	const warnings: string[] = [];
+	for (const [field, read] of Object.entries(extraction.references)) {
+		const barcodes = extraction.barcodeReferences.filter(
+			(b) => b.field === field,
+		);
+		if (!read || barcodes.length === 0) continue;
+		if (barcodes.some((b) => sameReference(b.value, read))) continue;
+		const decoded = barcodes
+			.map((b) => `"${b.value}" (page ${b.pageNumber})`)
+			.join(", ");
+		warnings.push(
+			`${field} read as "${read}" but barcode decodes to ${decoded}`,
+		);
+	}
+	return warnings;
+}
@@ -0,0 +1,96 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { TwoPassConfig } from "../types/index.js";
+
+/**
+ * Inputs that identify an AI call for recording/replay.
+ */
+export interface CassetteRequest {
+	model: string;
+	prompt: string;
+	// sha256 of each base64 image, in request order; hashing at the call
+	// site keeps a second reference to the images out of the request
+	imageHashes: string[];
+	// Distinguishes repeated ensemble samples of the same request
+	sample?: number;
+}
+
+/**
+ * A recorded AI response as stored on disk.
+ */
+export interface CassetteEntry<T> {
+	key: string;
+	model: string;
+	promptHash: string;
+	imageHashes: string[];
+	recordedAt: string;
+	response: T;
+}
+
+export function sha256(value: string): string {
+	return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Deterministic key for a request: model + prompt hash + image hashes.
+ */
+export function cassetteKey(request: CassetteRequest): string {
+	const promptHash = sha256(request.prompt);
+	const sample = request.sample ? [`sample:${request.sample}`] : [];
+	return sha256(
+		[request.model, promptHash, ...request.imageHashes, ...sample].join("\n"),
+	);
+}
+
+function cassettePath(dir: string, key: string): string {
+	return path.join(path.resolve(dir), `${key}.json`);
+}
+
+/**
+ * Run an AI call through the cassette.
+ * - off: call through
+ * - record: call through and write the response to disk
+ * - replay: return the recorded response, never touching the network
+ */
+export async function withCassette<T>(
+	request: CassetteRequest,
+	cassette: TwoPassConfig["cassette"],
+	fn: () => Promise<T>,
+): Promise<T> {
+	if (cassette.mode === "off") {
+		return fn();
+	}
+
+	const key = cassetteKey(request);
+	const filePath = cassettePath(cassette.dir, key);
+
+	if (cassette.mode === "replay") {
+		let content: string;
+		try {
+			content = await fs.readFile(filePath, "utf-8");
+		} catch {
+			throw new Error(
+				`No cassette recorded for ${request.model} (key ${key}) in ${cassette.dir}`,
+			);
+		}
+		const entry = JSON.parse(content) as CassetteEntry<T>;
+		return entry.response;
+	}
+
+	const response = await fn();
+
+	const entry: CassetteEntry<T> = {
+		key,
+		model: request.model,
+		promptHash: sha256(request.prompt),
+		imageHashes: request.imageHashes,
+		recordedAt: new Date().toISOString(),
+		response,
+	};
+
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(filePath, JSON.stringify(entry, null, 2), "utf-8");
+
+	return response;
+}
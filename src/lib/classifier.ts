@@ -1,28 +1,53 @@
-import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import { generateText } from "ai";
-import { env } from "../env.js";
-import { CLASSIFICATION_PROMPT } from "../prompts/classification.js";
+import { z } from "zod";
 import type {
+	CallAttempt,
 	ClassificationPassResult,
 	PageClassification,
 	PDFPage,
+	PromptTemplate,
+	RepairAttempt,
+	TokenUsage,
 	TwoPassConfig,
 	TwoPassDocumentType,
 } from "../types/index.js";
-import { parseJSONResponse, withRetry } from "./ai-client.js";
+import {
+	type AIMessageContent,
+	generateStructured,
+	StructuredGenerationError,
+} from "./ai-client.js";
+import { sha256, withCassette } from "./cassette.js";
 import { DEFAULT_CONFIG } from "./config.js";
+import {
+	createLanguageModel,
+	supportsStructuredOutputs,
+} from "./llm-provider.js";
+import {
+	averageConfidence,
+	type ModelFallbackOutcome,
+	withModelFallback,
+} from "./model-fallback.js";
+import { buildPageContent } from "./pdf-processor.js";
+import { preClassifyPages } from "./pre-classifier.js";
+import { loadPrompt, renderPrompt } from "./prompt-registry.js";
+import {
+	type ResponseCacheRequest,
+	withResponseCache,
+} from "./response-cache.js";
+import { addTokenUsage, emptyTokenUsage, priceTokenUsage } from "./usage.js";
 
-interface RawClassificationResponse {
-	pageNumber: number;
-	isRelevant: boolean;
-	documentType: string;
-	confidence: number;
-	keyReferences: string[];
-	palletInfoFound: string | null;
-	reason: string;
-}
+const rawClassificationSchema = z.object({
+	pageNumber: z.number().int().positive(),
+	isRelevant: z.boolean(),
+	documentType: z.string(),
+	confidence: z.number(),
+	keyReferences: z.array(z.string()).nullish(),
+	palletInfoFound: z.string().nullish(),
+	reason: z.string().nullish(),
+});
+
+type RawClassificationResponse = z.infer<typeof rawClassificationSchema>;
 
-const VALID_DOCUMENT_TYPES: TwoPassDocumentType[] = [
+export const VALID_DOCUMENT_TYPES: TwoPassDocumentType[] = [
 	"ladeliste",
 	"ladeschein",
 	"lieferschein_with_pallets",
@@ -102,61 +127,82 @@ function normalizeClassification(
 		keyReferences: raw.keyReferences || [],
 		palletInfoFound: raw.palletInfoFound || null,
 		reason: raw.reason || "",
+		source: "model",
 	};
 }
 
-export async function classifyPages(
-	pages: PDFPage[],
-	config: TwoPassConfig = DEFAULT_CONFIG,
-): Promise<ClassificationPassResult> {
-	if (pages.length === 0) {
-		return {
-			pages: [],
-			relevantPageNumbers: [],
-			documentTypesFound: [],
-			totalPages: 0,
-			relevantPages: 0,
-		};
-	}
-
-	const openrouter = createOpenRouter({
-		apiKey: env.OPENROUTER_API_KEY,
-	});
+interface ModelClassification {
+	classifications: PageClassification[];
+	repairAttempts: RepairAttempt[];
+	callAttempts: CallAttempt[];
+	usage: TokenUsage;
+	cacheHit: boolean;
+}
 
-	const classificationModel = openrouter(config.classification.model);
+async function classifyWithModel(
+	pages: PDFPage[],
+	model: string,
+	prompt: string,
+	config: TwoPassConfig,
+): Promise<ModelClassification> {
+	const classificationModel = createLanguageModel(model, config.provider);
 
-	const content: Array<
-		{ type: "image"; image: string } | { type: "text"; text: string }
-	> = [
-		...pages.map((p) => ({ type: "image" as const, image: p.imageBase64 })),
-		{ type: "text" as const, text: CLASSIFICATION_PROMPT },
+	const content: AIMessageContent[] = [
+		...(await buildPageContent(pages, config)),
+		{ type: "text" as const, text: prompt },
 	];
 
-	const response = await withRetry(async () => {
-		const result = await generateText({
-			model: classificationModel,
-			messages: [{ role: "user", content }],
-		});
-		return result.text;
-	});
+	const structuredOutputs = supportsStructuredOutputs(config.provider);
+	// Text layers are part of the request, so they are part of the cache key
+	const request: ResponseCacheRequest = {
+		model,
+		prompt: content
+			.flatMap((c) => (c.type === "text" ? [c.text] : []))
+			.join("\n\n"),
+		imageHashes: content.flatMap((c) =>
+			c.type === "image" ? [sha256(c.image)] : [],
+		),
+		params: {
+			provider: config.provider.type,
+			temperature: config.classification.temperature,
+			maxTokens: config.classification.maxTokens,
+			structuredOutputs,
+		},
+	};
 
-	const rawClassifications =
-		parseJSONResponse<RawClassificationResponse[]>(response);
-	const classifications = rawClassifications.map(normalizeClassification);
+	const recorded = await withCassette(request, config.cassette, () =>
+		withResponseCache(request, config.cache, () =>
+			generateStructured({
+				model: classificationModel,
+				modelId: model,
+				content,
+				schema: rawClassificationSchema,
+				pass: "classification",
+				structuredOutputs,
+				temperature: config.classification.temperature,
+				maxTokens: config.classification.maxTokens,
+				maxRepairAttempts: config.classification.maxRepairAttempts,
+				retry: config.retry,
+			}),
+		),
+	);
+	const { response } = recorded;
+	// A replayed recording makes no calls either, just like a cache hit
+	const cacheHit = recorded.cacheHit || config.cassette.mode === "replay";
 
 	const pageMap = new Map<number, PageClassification>();
-	for (const c of classifications) {
+	for (const c of response.data.map(normalizeClassification)) {
 		pageMap.set(c.pageNumber, c);
 	}
 
-	const finalClassifications: PageClassification[] = [];
+	const classifications: PageClassification[] = [];
 	for (let i = 0; i < pages.length; i++) {
 		const pageNum = i + 1;
 		const existing = pageMap.get(pageNum);
 		if (existing) {
-			finalClassifications.push(existing);
+			classifications.push(existing);
 		} else {
-			finalClassifications.push({
+			classifications.push({
 				pageNumber: pageNum,
 				isRelevant: false,
 				documentType: "unknown",
@@ -164,10 +210,156 @@ export async function classifyPages(
 				keyReferences: [],
 				palletInfoFound: null,
 				reason: "Page not classified by AI",
+				source: "model",
 			});
 		}
 	}
 
+	return {
+		classifications,
+		// A cache hit replays no calls, so it made no repair attempts either
+		repairAttempts: cacheHit ? [] : response.repairAttempts,
+		callAttempts: cacheHit ? [] : response.callAttempts,
+		usage: cacheHit
+			? emptyTokenUsage()
+			: priceTokenUsage(response.usage, model, config.pricing),
+		cacheHit,
+	};
+}
+
+/**
+ * Classify pages with the model, falling back to the next model when one
+ * fails or is not confident enough. Attempts and usage accumulate across
+ * all models tried.
+ */
+async function classifyWithModels(
+	uncertainPages: PDFPage[],
+	promptTemplate: PromptTemplate,
+	config: TwoPassConfig,
+	repairAttempts: RepairAttempt[],
+	callAttempts: CallAttempt[],
+	addUsage: (usage: TokenUsage) => void,
+): Promise<ModelFallbackOutcome<ModelClassification>> {
+	const prompt = renderPrompt(
+		promptTemplate,
+		{ PAGE_COUNT: String(uncertainPages.length) },
+		config,
+	);
+
+	const models = [
+		config.classification.model,
+		...config.classification.fallbackModels,
+	];
+
+	try {
+		return await withModelFallback(
+			"classification",
+			models,
+			async (model) => {
+				try {
+					const result = await classifyWithModel(
+						uncertainPages,
+						model,
+						prompt,
+						config,
+					);
+					repairAttempts.push(...result.repairAttempts);
+					callAttempts.push(...result.callAttempts);
+					addUsage(result.usage);
+					return result;
+				} catch (error) {
+					if (error instanceof StructuredGenerationError) {
+						repairAttempts.push(...error.repairAttempts);
+						callAttempts.push(...error.callAttempts);
+					}
+					throw error;
+				}
+			},
+			(result) => {
+				const confidence = averageConfidence(result.classifications);
+				return {
+					confidence,
+					rejectReason:
+						confidence < config.classification.confidenceThreshold
+							? `mean confidence ${confidence.toFixed(2)} below ${config.classification.confidenceThreshold}`
+							: null,
+				};
+			},
+		);
+	} catch (error) {
+		if (error instanceof StructuredGenerationError) {
+			throw new StructuredGenerationError(
+				error.message,
+				repairAttempts,
+				callAttempts,
+				{ cause: error.cause },
+			);
+		}
+		throw error;
+	}
+}
+
+export async function classifyPages(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<ClassificationPassResult> {
+	const promptTemplate = await loadPrompt("classification", config);
+
+	if (pages.length === 0) {
+		return {
+			pages: [],
+			relevantPageNumbers: [],
+			documentTypesFound: [],
+			totalPages: 0,
+			relevantPages: 0,
+			repairAttempts: [],
+			callAttempts: [],
+			usage: emptyTokenUsage(),
+			cacheHit: false,
+			model: config.classification.model,
+			fallbacks: [],
+			promptVersion: promptTemplate.id,
+		};
+	}
+
+	const ruled = await preClassifyPages(pages, config);
+	// Positions in `pages` that still need the model
+	const uncertain = pages.flatMap((_page, i) => (ruled.has(i + 1) ? [] : [i]));
+
+	const repairAttempts: RepairAttempt[] = [];
+	const callAttempts: CallAttempt[] = [];
+	let usage = emptyTokenUsage();
+	const { batchPages } = config.memory;
+
+	// One request per batch, so a long scan is never encoded as a whole
+	const outcomes: ModelFallbackOutcome<ModelClassification>[] = [];
+	for (let start = 0; start < uncertain.length; start += batchPages) {
+		outcomes.push(
+			await classifyWithModels(
+				uncertain.slice(start, start + batchPages).map((i) => pages[i]),
+				promptTemplate,
+				config,
+				repairAttempts,
+				callAttempts,
+				(callUsage) => {
+					usage = addTokenUsage(usage, callUsage);
+				},
+			),
+		);
+	}
+
+	// The model numbered only the pages it saw; map back to positions
+	const modelClassifications = outcomes.flatMap(
+		(outcome) => outcome.result.classifications,
+	);
+	const finalClassifications = pages.map(
+		(_page, i) =>
+			ruled.get(i + 1) ?? {
+				...modelClassifications[uncertain.indexOf(i)],
+				pageNumber: i + 1,
+			},
+	);
+
 	const relevantPageNumbers = finalClassifications
 		.filter((c) => c.isRelevant)
 		.map((c) => c.pageNumber);
@@ -186,6 +378,19 @@ export async function classifyPages(
 		documentTypesFound,
 		totalPages: pages.length,
 		relevantPages: relevantPageNumbers.length,
+		repairAttempts,
+		callAttempts,
+		usage,
+		cacheHit:
+			outcomes.length > 0 &&
+			outcomes.every((outcome) => outcome.result.cacheHit),
+		// No outcomes: every page was decided by the pre-classifier
+		model:
+			outcomes.length > 0
+				? [...new Set(outcomes.map((outcome) => outcome.model))].join(", ")
+				: "rules",
+		fallbacks: outcomes.flatMap((outcome) => outcome.fallbacks),
+		promptVersion: promptTemplate.id,
 	};
 }
 
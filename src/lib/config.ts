@@ -1,9 +1,33 @@
-import type { TwoPassConfig } from "../types/index.js";
+import { z } from "zod";
+import type {
+	CassetteMode,
+	DuplicateAction,
+	GroupingMode,
+	TwoPassConfig,
+	TwoPassConfigOverrides,
+} from "../types/index.js";
+import { formatSchemaErrors } from "./schema-errors.js";
+
+/**
+ * Model id → price per million tokens, for the config file and
+ * MODEL_PRICING.
+ */
+export const pricingSchema = z.record(
+	z.string(),
+	z.strictObject({
+		promptPerMillion: z.number().nonnegative(),
+		completionPerMillion: z.number().nonnegative(),
+	}),
+);
 
 /**
  * Default configuration for two-pass extraction.
  */
 export const DEFAULT_CONFIG: TwoPassConfig = {
+	// Hosted models via OpenRouter; switch to "openai-compatible" for on-prem
+	provider: {
+		type: "openrouter",
+	},
 	classification: {
 		// Use a fast, cheap model for classification (or not)
 		// model: "google/gemini-2.0-flash-001",
@@ -12,12 +36,19 @@ export const DEFAULT_CONFIG: TwoPassConfig = {
 		maxTokens: 2048,
 		// Pages with confidence below this are flagged for review
 		confidenceThreshold: 0.6,
+		// Round-trips sending schema errors back to the model
+		maxRepairAttempts: 2,
+		// Tried in order on errors or mean page confidence below confidenceThreshold
+		fallbackModels: [],
 	},
 	extraction: {
 		// Use a smarter model for extraction
 		model: "google/gemini-2.5-pro",
 		temperature: 0,
 		maxTokens: 4096,
+		maxRepairAttempts: 2,
+		// Tried in order on errors or confidence below lowConfidenceThreshold
+		fallbackModels: [],
 	},
 	validation: {
 		// Auto-correct saldo if math is wrong
@@ -37,14 +68,128 @@ export const DEFAULT_CONFIG: TwoPassConfig = {
 		// Output directory
 		outputDir: "./output",
 	},
+	cassette: {
+		// Record AI responses to disk or replay them without network
+		mode: "off",
+		dir: "./cassettes",
+	},
+	cache: {
+		// Skip AI calls for unchanged pages, prompts and parameters
+		enabled: true,
+		dir: "./.cache/responses",
+	},
+	retry: {
+		maxAttempts: 3,
+		initialDelayMs: 1000,
+		maxDelayMs: 30000,
+		// Multi-page vision calls can be slow
+		timeoutMs: 180000,
+	},
+	input: {
+		maxPages: 500,
+		maxFileSizeMb: 50,
+		passwords: [],
+		maxArchiveSizeMb: 500,
+		maxArchiveEntries: 1000,
+	},
+	rendering: {
+		scale: 2.0,
+		dpi: null,
+		// Grayscale and JPEG/WebP shrink payloads (and cost) considerably
+		grayscale: false,
+		format: "png",
+		quality: 85,
+	},
+	memory: {
+		maxPageMemoryMb: 256,
+		spillDir: null,
+		batchPages: 20,
+	},
+	preprocessing: {
+		// Meant for phone photos and crooked scans; costs some CPU per page
+		enabled: false,
+		autoRotate: true,
+		deskew: true,
+		maxSkewDegrees: 10,
+		normalizeContrast: true,
+		trimBorders: true,
+	},
+	grouping: {
+		mode: "prefix",
+		profile: null,
+		profiles: {},
+	},
+	segmentation: {
+		enabled: true,
+	},
+	duplicates: {
+		enabled: true,
+		action: "flag",
+		maxHashDistance: 10,
+	},
+	barcodes: {
+		enabled: true,
+		fillMissingReferences: true,
+	},
+	pageSplitting: {
+		// Opt-in: a gutter detector on every scan misfires on forms with a
+		// blank band. Only scanned pages are analysed, never digital ones
+		enabled: false,
+		minGap: 0.03,
+		minInkShare: 0.2,
+	},
+	preClassification: {
+		enabled: true,
+		blankMaxStdDev: 6,
+	},
+	textLayer: {
+		enabled: true,
+		maxCharsPerPage: 6000,
+	},
+	ensemble: {
+		enabled: false,
+		models: [],
+		// Runs per model
+		samples: 1,
+		disagreementPenalty: 0.1,
+	},
+	pricing: {
+		// USD per million tokens, as listed on OpenRouter
+		"google/gemini-2.5-pro": {
+			promptPerMillion: 1.25,
+			completionPerMillion: 10,
+		},
+		"google/gemini-2.5-flash": {
+			promptPerMillion: 0.3,
+			completionPerMillion: 2.5,
+		},
+		"google/gemini-2.0-flash-001": {
+			promptPerMillion: 0.1,
+			completionPerMillion: 0.4,
+		},
+	},
+	fewShot: {
+		// Examples are only sent when their document type was classified
+		enabled: true,
+		dir: "./examples",
+		maxExamples: 2,
+	},
+	prompts: {
+		dir: "./prompts",
+		// Prompt versions, i.e. file names without .md
+		classification: "v1",
+		extraction: "v1",
+		variables: {},
+	},
 };
 
-export function getConfig(overrides?: Partial<TwoPassConfig>): TwoPassConfig {
+export function getConfig(overrides?: TwoPassConfigOverrides): TwoPassConfig {
 	if (!overrides) {
 		return DEFAULT_CONFIG;
 	}
 
 	return {
+		provider: overrides.provider ?? DEFAULT_CONFIG.provider,
 		classification: {
 			...DEFAULT_CONFIG.classification,
 			...overrides.classification,
@@ -61,36 +206,384 @@ export function getConfig(overrides?: Partial<TwoPassConfig>): TwoPassConfig {
 			...DEFAULT_CONFIG.output,
 			...overrides.output,
 		},
+		cassette: {
+			...DEFAULT_CONFIG.cassette,
+			...overrides.cassette,
+		},
+		cache: {
+			...DEFAULT_CONFIG.cache,
+			...overrides.cache,
+		},
+		retry: {
+			...DEFAULT_CONFIG.retry,
+			...overrides.retry,
+		},
+		input: {
+			...DEFAULT_CONFIG.input,
+			...overrides.input,
+		},
+		rendering: {
+			...DEFAULT_CONFIG.rendering,
+			...overrides.rendering,
+		},
+		memory: {
+			...DEFAULT_CONFIG.memory,
+			...overrides.memory,
+		},
+		preprocessing: {
+			...DEFAULT_CONFIG.preprocessing,
+			...overrides.preprocessing,
+		},
+		grouping: {
+			...DEFAULT_CONFIG.grouping,
+			...overrides.grouping,
+		},
+		segmentation: {
+			...DEFAULT_CONFIG.segmentation,
+			...overrides.segmentation,
+		},
+		duplicates: {
+			...DEFAULT_CONFIG.duplicates,
+			...overrides.duplicates,
+		},
+		barcodes: {
+			...DEFAULT_CONFIG.barcodes,
+			...overrides.barcodes,
+		},
+		pageSplitting: {
+			...DEFAULT_CONFIG.pageSplitting,
+			...overrides.pageSplitting,
+		},
+		preClassification: {
+			...DEFAULT_CONFIG.preClassification,
+			...overrides.preClassification,
+		},
+		textLayer: {
+			...DEFAULT_CONFIG.textLayer,
+			...overrides.textLayer,
+		},
+		ensemble: {
+			...DEFAULT_CONFIG.ensemble,
+			...overrides.ensemble,
+		},
+		pricing: {
+			...DEFAULT_CONFIG.pricing,
+			...overrides.pricing,
+		},
+		fewShot: {
+			...DEFAULT_CONFIG.fewShot,
+			...overrides.fewShot,
+		},
+		prompts: {
+			...DEFAULT_CONFIG.prompts,
+			...overrides.prompts,
+		},
 	};
 }
 
 /**
  * Environment variable overrides for config.
- * These take precedence over defaults.
+ * These take precedence over defaults and the config file (base).
  */
-export function getConfigFromEnv(): Partial<TwoPassConfig> {
+export function getConfigFromEnv(
+	base: TwoPassConfig = DEFAULT_CONFIG,
+): Partial<TwoPassConfig> {
 	const overrides: Partial<TwoPassConfig> = {};
 
-	if (process.env.CLASSIFICATION_MODEL) {
+	const structuredOutputs = process.env.LLM_STRUCTURED_OUTPUTS === "true";
+
+	switch (process.env.LLM_PROVIDER) {
+		case undefined:
+		case "":
+			// Keep the configured provider, only switch its structured outputs on
+			if (structuredOutputs && base.provider.type !== "fake") {
+				overrides.provider = { ...base.provider, structuredOutputs };
+			}
+			break;
+		case "openrouter":
+			overrides.provider =
+				base.provider.type === "openrouter"
+					? {
+							...base.provider,
+							structuredOutputs:
+								structuredOutputs || base.provider.structuredOutputs,
+						}
+					: { type: "openrouter", structuredOutputs };
+			break;
+		case "openai-compatible":
+			if (!process.env.LLM_BASE_URL) {
+				throw new Error(
+					"LLM_BASE_URL must be set when LLM_PROVIDER is openai-compatible",
+				);
+			}
+			overrides.provider = {
+				type: "openai-compatible",
+				name: process.env.LLM_PROVIDER_NAME || "openai-compatible",
+				baseURL: process.env.LLM_BASE_URL,
+				apiKey: process.env.LLM_API_KEY,
+				structuredOutputs,
+			};
+			break;
+		case "fake":
+			overrides.provider = { type: "fake", responses: {} };
+			break;
+		default:
+			throw new Error(
+				`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}" (expected openrouter, openai-compatible or fake)`,
+			);
+	}
+
+	if (
+		process.env.CLASSIFICATION_MODEL ||
+		process.env.CLASSIFICATION_FALLBACK_MODELS
+	) {
 		overrides.classification = {
-			...DEFAULT_CONFIG.classification,
-			model: process.env.CLASSIFICATION_MODEL,
+			...base.classification,
+			model: process.env.CLASSIFICATION_MODEL || base.classification.model,
+			fallbackModels: parseList(
+				process.env.CLASSIFICATION_FALLBACK_MODELS,
+				base.classification.fallbackModels,
+			),
 		};
 	}
 
-	if (process.env.EXTRACTION_MODEL) {
+	if (process.env.EXTRACTION_MODEL || process.env.EXTRACTION_FALLBACK_MODELS) {
 		overrides.extraction = {
-			...DEFAULT_CONFIG.extraction,
-			model: process.env.EXTRACTION_MODEL,
+			...base.extraction,
+			model: process.env.EXTRACTION_MODEL || base.extraction.model,
+			fallbackModels: parseList(
+				process.env.EXTRACTION_FALLBACK_MODELS,
+				base.extraction.fallbackModels,
+			),
+		};
+	}
+
+	if (process.env.ENSEMBLE_MODELS || process.env.ENSEMBLE_SAMPLES) {
+		overrides.ensemble = {
+			...base.ensemble,
+			enabled: true,
+			models: parseList(process.env.ENSEMBLE_MODELS, base.ensemble.models),
+			samples: process.env.ENSEMBLE_SAMPLES
+				? parsePositiveInt("ENSEMBLE_SAMPLES", process.env.ENSEMBLE_SAMPLES)
+				: base.ensemble.samples,
+		};
+	}
+
+	if (process.env.MAX_PAGES || process.env.PDF_PASSWORDS) {
+		overrides.input = {
+			...base.input,
+			maxPages: process.env.MAX_PAGES
+				? parsePositiveInt("MAX_PAGES", process.env.MAX_PAGES)
+				: base.input.maxPages,
+			// Comma-separated; passwords containing commas need the config file
+			passwords: parseList(process.env.PDF_PASSWORDS, base.input.passwords),
+		};
+	}
+
+	if (process.env.PAGE_MEMORY_MB || process.env.PAGE_BATCH_SIZE) {
+		overrides.memory = {
+			...base.memory,
+			maxPageMemoryMb: process.env.PAGE_MEMORY_MB
+				? parseNonNegativeInt("PAGE_MEMORY_MB", process.env.PAGE_MEMORY_MB)
+				: base.memory.maxPageMemoryMb,
+			batchPages: process.env.PAGE_BATCH_SIZE
+				? parsePositiveInt("PAGE_BATCH_SIZE", process.env.PAGE_BATCH_SIZE)
+				: base.memory.batchPages,
+		};
+	}
+
+	if (process.env.PREPROCESSING) {
+		overrides.preprocessing = {
+			...base.preprocessing,
+			enabled: process.env.PREPROCESSING !== "off",
+		};
+	}
+
+	if (process.env.GROUPING_MODE) {
+		overrides.grouping = {
+			...base.grouping,
+			mode: parseGroupingMode(process.env.GROUPING_MODE),
+		};
+	}
+
+	if (process.env.GROUPING_PROFILE) {
+		overrides.grouping = {
+			...base.grouping,
+			...overrides.grouping,
+			profile: process.env.GROUPING_PROFILE,
+		};
+	}
+
+	if (process.env.SEGMENTATION) {
+		overrides.segmentation = {
+			...base.segmentation,
+			enabled: process.env.SEGMENTATION !== "off",
+		};
+	}
+
+	if (process.env.DUPLICATES) {
+		overrides.duplicates =
+			process.env.DUPLICATES === "off"
+				? { ...base.duplicates, enabled: false }
+				: {
+						...base.duplicates,
+						enabled: true,
+						action: parseDuplicateAction(process.env.DUPLICATES),
+					};
+	}
+
+	if (process.env.BARCODES) {
+		overrides.barcodes = {
+			...base.barcodes,
+			enabled: process.env.BARCODES !== "off",
+		};
+	}
+
+	if (process.env.PAGE_SPLITTING) {
+		overrides.pageSplitting = {
+			...base.pageSplitting,
+			enabled: process.env.PAGE_SPLITTING !== "off",
+		};
+	}
+
+	if (process.env.PRE_CLASSIFICATION) {
+		overrides.preClassification = {
+			...base.preClassification,
+			enabled: process.env.PRE_CLASSIFICATION !== "off",
+		};
+	}
+
+	if (process.env.TEXT_LAYER) {
+		overrides.textLayer = {
+			...base.textLayer,
+			enabled: process.env.TEXT_LAYER !== "off",
 		};
 	}
 
 	if (process.env.OUTPUT_DIR) {
 		overrides.output = {
-			...DEFAULT_CONFIG.output,
+			...base.output,
 			outputDir: process.env.OUTPUT_DIR,
 		};
 	}
 
+	if (process.env.CASSETTE_MODE || process.env.CASSETTE_DIR) {
+		overrides.cassette = {
+			...base.cassette,
+			mode: process.env.CASSETTE_MODE
+				? parseCassetteMode(process.env.CASSETTE_MODE)
+				: base.cassette.mode,
+			dir: process.env.CASSETTE_DIR || base.cassette.dir,
+		};
+	}
+
+	if (process.env.RESPONSE_CACHE || process.env.RESPONSE_CACHE_DIR) {
+		overrides.cache = {
+			...base.cache,
+			enabled: process.env.RESPONSE_CACHE
+				? process.env.RESPONSE_CACHE !== "off"
+				: base.cache.enabled,
+			dir: process.env.RESPONSE_CACHE_DIR || base.cache.dir,
+		};
+	}
+
+	if (process.env.FEW_SHOT || process.env.FEW_SHOT_DIR) {
+		overrides.fewShot = {
+			...base.fewShot,
+			enabled: process.env.FEW_SHOT
+				? process.env.FEW_SHOT !== "off"
+				: base.fewShot.enabled,
+			dir: process.env.FEW_SHOT_DIR || base.fewShot.dir,
+		};
+	}
+
+	if (
+		process.env.PROMPTS_DIR ||
+		process.env.CLASSIFICATION_PROMPT_VERSION ||
+		process.env.EXTRACTION_PROMPT_VERSION
+	) {
+		overrides.prompts = {
+			...base.prompts,
+			dir: process.env.PROMPTS_DIR || base.prompts.dir,
+			classification:
+				process.env.CLASSIFICATION_PROMPT_VERSION ||
+				base.prompts.classification,
+			extraction:
+				process.env.EXTRACTION_PROMPT_VERSION || base.prompts.extraction,
+		};
+	}
+
+	if (process.env.MODEL_PRICING) {
+		const usage =
+			'MODEL_PRICING must be JSON like {"model": {"promptPerMillion": 1, "completionPerMillion": 2}}';
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(process.env.MODEL_PRICING);
+		} catch {
+			throw new Error(usage);
+		}
+		const result = pricingSchema.safeParse(parsed);
+		if (!result.success) {
+			throw new Error(
+				`${usage} (${formatSchemaErrors(result.error).join("; ")})`,
+			);
+		}
+		overrides.pricing = { ...base.pricing, ...result.data };
+	}
+
 	return overrides;
 }
+
+function parseList(
+	value: string | undefined,
+	fallback: string[] = [],
+): string[] {
+	if (!value) return fallback;
+	return value
+		.split(",")
+		.map((m) => m.trim())
+		.filter(Boolean);
+}
+
+function parsePositiveInt(name: string, value: string): number {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1) {
+		throw new Error(`${name} must be a positive integer, got "${value}"`);
+	}
+	return parsed;
+}
+
+function parseNonNegativeInt(name: string, value: string): number {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 0) {
+		throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+	}
+	return parsed;
+}
+
+export function parseGroupingMode(value: string): GroupingMode {
+	if (value === "prefix" || value === "references") {
+		return value;
+	}
+	throw new Error(
+		`Unknown grouping mode "${value}" (expected prefix or references)`,
+	);
+}
+
+export function parseDuplicateAction(value: string): DuplicateAction {
+	if (value === "flag" || value === "drop") {
+		return value;
+	}
+	throw new Error(
+		`Unknown duplicate action "${value}" (expected flag or drop)`,
+	);
+}
+
+export function parseCassetteMode(value: string): CassetteMode {
+	if (value === "off" || value === "record" || value === "replay") {
+		return value;
+	}
+	throw new Error(
+		`Unknown cassette mode "${value}" (expected off, record or replay)`,
+	);
+}
@@ -0,0 +1,111 @@
+import type {
+	ClassificationPassResult,
+	DeliverySegment,
+	PageClassification,
+	PDFPage,
+	TwoPassConfig,
+} from "../types/index.js";
+import { filterRelevantPages } from "./classifier.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { classificationReferences } from "./reference-grouper.js";
+
+/**
+ * Whether a page opens a new delivery: both the page and the current
+ * segment carry references, none of the page's seen in the segment, and
+ * the segment already holds a document of the same type. A Lieferschein
+ * followed by a Ladeliste with its own number stays together; a second
+ * Lieferschein with another number does not. A segment without any
+ * references has nothing to contradict, so the next page joins it.
+ */
+function startsNewDelivery(
+	page: PageClassification,
+	references: string[],
+	segment: { references: Set<string>; documentTypes: Set<string> },
+): boolean {
+	return (
+		references.length > 0 &&
+		segment.references.size > 0 &&
+		references.every((reference) => !segment.references.has(reference)) &&
+		segment.documentTypes.has(page.documentType)
+	);
+}
+
+/**
+ * Cut the relevant pages of one input into deliveries, in page order.
+ * Irrelevant pages belong to no segment. Pages without references stay
+ * with the delivery before them. Returns a single segment when
+ * segmentation is disabled.
+ */
+export function segmentDeliveries(
+	classification: ClassificationPassResult,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): DeliverySegment[] {
+	const relevant = classification.pages
+		.filter((page) =>
+			classification.relevantPageNumbers.includes(page.pageNumber),
+		)
+		.sort((a, b) => a.pageNumber - b.pageNumber);
+
+	const segments: Array<{
+		pageNumbers: number[];
+		references: Set<string>;
+		documentTypes: Set<string>;
+	}> = [];
+	for (const page of relevant) {
+		const references = classificationReferences(page);
+		let current = segments.at(-1);
+		if (
+			!current ||
+			(config.segmentation.enabled &&
+				startsNewDelivery(page, references, current))
+		) {
+			current = {
+				pageNumbers: [],
+				references: new Set(),
+				documentTypes: new Set(),
+			};
+			segments.push(current);
+		}
+		current.pageNumbers.push(page.pageNumber);
+		current.documentTypes.add(page.documentType);
+		for (const reference of references) {
+			current.references.add(reference);
+		}
+	}
+
+	return segments.map((segment, i) => ({
+		index: i + 1,
+		pageNumbers: segment.pageNumbers,
+		firstPage: segment.pageNumbers[0],
+		lastPage: segment.pageNumbers[segment.pageNumbers.length - 1],
+		references: [...segment.references],
+	}));
+}
+
+/**
+ * Pages and classifications of one segment, as `filterRelevantPages`
+ * returns them for the whole input.
+ */
+export function filterSegmentPages(
+	pages: PDFPage[],
+	classification: ClassificationPassResult,
+	segment: DeliverySegment,
+): { relevantPages: PDFPage[]; metadata: PageClassification[] } {
+	return filterRelevantPages(pages, {
+		...classification,
+		relevantPageNumbers: segment.pageNumbers,
+	});
+}
+
+/**
+ * "pages 3-7" or "page 3", with the references if there are any.
+ */
+export function describeSegment(segment: DeliverySegment): string {
+	const range =
+		segment.firstPage === segment.lastPage
+			? `page ${segment.firstPage}`
+			: `pages ${segment.firstPage}-${segment.lastPage}`;
+	return segment.references.length > 0
+		? `${range} (refs: ${segment.references.join(", ")})`
+		: range;
+}
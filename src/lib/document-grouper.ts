@@ -1,6 +1,13 @@
 import * as path from "node:path";
-import type { DocumentGroup, PDFPage } from "../types/index.js";
-import { processPDF } from "./pdf-processor.js";
+import type {
+	DocumentGroup,
+	GroupSource,
+	PDFPage,
+	TwoPassConfig,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { loadInput } from "./input-loader.js";
+import { releasePages } from "./page-store.js";
 
 /**
  * Extract the base prefix from a filename.
@@ -9,6 +16,7 @@ import { processPDF } from "./pdf-processor.js";
  *   F1250031939_2.pdf → F1250031939
  *   F1250031939-page2.pdf → F1250031939
  *   document_part1.pdf → document
+ *   F1250031939_2.tif → F1250031939
  */
 export function extractFilePrefix(filename: string): string {
 	const basename = path.basename(filename, path.extname(filename));
@@ -16,66 +24,52 @@ export function extractFilePrefix(filename: string): string {
 	return basename.replace(/[_-](?:\d+|page\d+|part\d+)$/i, "");
 }
 
-/**
- * Group files by their extracted prefix.
- * Returns a Map where keys are prefixes and values are arrays of file paths.
- */
-export function groupFilesByPrefix(filePaths: string[]): Map<string, string[]> {
-	const groups = new Map<string, string[]>();
-
-	for (const filePath of filePaths) {
-		const prefix = extractFilePrefix(filePath);
-		const existing = groups.get(prefix) || [];
-		existing.push(filePath);
-		groups.set(prefix, existing);
-	}
-
-	// Sort files within each group for consistent ordering
-	for (const [prefix, files] of groups) {
-		groups.set(prefix, files.sort());
-	}
-
-	return groups;
+export function looseFileSource(filePaths: string[]): GroupSource {
+	return {
+		kind: "files",
+		container: null,
+		subject: null,
+		from: null,
+		date: null,
+		entries: filePaths.map((file) => path.basename(file)),
+	};
 }
 
 export async function processDocumentGroup(
 	prefix: string,
 	filePaths: string[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+	source: GroupSource = looseFileSource(filePaths),
 ): Promise<DocumentGroup> {
 	const allPages: PDFPage[] = [];
+	const pageFiles: string[] = [];
 	let globalPageNumber = 0;
 
-	const sortedPaths = [...filePaths].sort();
-
-	for (const filePath of sortedPaths) {
-		const pdfResult = await processPDF(filePath);
+	// Files keep the caller's order, which source.entries follows
+	try {
+		for (const filePath of filePaths) {
+			const pdfResult = await loadInput(filePath, config);
 
-		for (const page of pdfResult.pages) {
-			globalPageNumber++;
-			allPages.push({
-				...page,
-				pageNumber: globalPageNumber,
-			});
+			for (const page of pdfResult.pages) {
+				globalPageNumber++;
+				allPages.push({
+					...page,
+					pageNumber: globalPageNumber,
+				});
+				pageFiles.push(filePath);
+			}
 		}
+	} catch (error) {
+		// Pages of the files before the failing one are not needed any more
+		await releasePages(allPages);
+		throw error;
 	}
 
 	return {
 		prefix,
-		files: sortedPaths,
+		files: filePaths,
 		pages: allPages,
+		pageFiles,
+		source,
 	};
 }
-
-export async function processAllGroups(
-	filePaths: string[],
-): Promise<DocumentGroup[]> {
-	const groups = groupFilesByPrefix(filePaths);
-	const results: DocumentGroup[] = [];
-
-	for (const [prefix, files] of groups) {
-		const group = await processDocumentGroup(prefix, files);
-		results.push(group);
-	}
-
-	return results;
-}
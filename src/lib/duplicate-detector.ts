@@ -0,0 +1,187 @@
+import sharp from "sharp";
+import type {
+	ClassificationPassResult,
+	DuplicatePage,
+	PDFPage,
+	TwoPassConfig,
+	TwoPassDocumentType,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { readPageImage } from "./page-store.js";
+import { classificationReferences } from "./reference-grouper.js";
+
+// dHash: compare neighbouring pixels of a 17×16 thumbnail, 256 bits. At
+// 64 bits (9×8) forms of one shipper were too often indistinguishable.
+const HASH_WIDTH = 17;
+const HASH_HEIGHT = 16;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+/**
+ * What a relevant page is compared by
+ */
+export interface PageFingerprint {
+	group: string;
+	// File (or group, if the file is unknown) the page came from; matches
+	// only count between different origins, since the pages of one document
+	// share their references and often their layout
+	origin: string;
+	pageNumber: number;
+	hash: string | null;
+	documentType: TwoPassDocumentType;
+	references: string[];
+}
+
+export async function computePerceptualHash(image: Buffer): Promise<string> {
+	const { data } = await sharp(image)
+		.greyscale()
+		.resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+
+	let hash = 0n;
+	for (let y = 0; y < HASH_HEIGHT; y++) {
+		for (let x = 0; x < HASH_WIDTH - 1; x++) {
+			const left = data[y * HASH_WIDTH + x];
+			const right = data[y * HASH_WIDTH + x + 1];
+			hash = (hash << 1n) | (left > right ? 1n : 0n);
+		}
+	}
+	return hash.toString(16).padStart(HASH_BITS / 4, "0");
+}
+
+export function hashDistance(a: string, b: string): number {
+	let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+	let bits = 0;
+	while (diff > 0n) {
+		bits += Number(diff & 1n);
+		diff >>= 1n;
+	}
+	return bits;
+}
+
+/**
+ * Compute the perceptual hash of every page. Returns the pages unchanged
+ * when duplicate detection is disabled.
+ */
+export async function hashPages(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFPage[]> {
+	if (!config.duplicates.enabled) {
+		return pages;
+	}
+
+	const hashed: PDFPage[] = [];
+	for (const page of pages) {
+		hashed.push({
+			...page,
+			perceptualHash: await computePerceptualHash(await readPageImage(page)),
+		});
+	}
+	return hashed;
+}
+
+/**
+ * Fingerprints of a group's relevant pages. `origins` holds the origin of
+ * each page, in the order of `pages`.
+ */
+export function fingerprintPages(
+	group: string,
+	pages: PDFPage[],
+	origins: string[],
+	classification: ClassificationPassResult,
+): PageFingerprint[] {
+	return classification.pages
+		.filter((page) =>
+			classification.relevantPageNumbers.includes(page.pageNumber),
+		)
+		.map((page) => ({
+			group,
+			origin: origins[page.pageNumber - 1] ?? group,
+			pageNumber: page.pageNumber,
+			hash: pages[page.pageNumber - 1]?.perceptualHash ?? null,
+			documentType: page.documentType,
+			references: classificationReferences(page).sort(),
+		}));
+}
+
+function sameReferences(a: string[], b: string[]): boolean {
+	return a.length > 0 && a.length === b.length && a.every((r, i) => r === b[i]);
+}
+
+function sharesReference(a: string[], b: string[]): boolean {
+	return a.some((r) => b.includes(r));
+}
+
+function matchPages(
+	page: PageFingerprint,
+	earlier: PageFingerprint,
+	config: TwoPassConfig,
+): Pick<DuplicatePage, "match" | "hashDistance"> | null {
+	if (
+		page.origin === earlier.origin ||
+		page.documentType !== earlier.documentType
+	) {
+		return null;
+	}
+	const distance =
+		page.hash && earlier.hash
+			? hashDistance(page.hash, earlier.hash)
+			: HASH_BITS;
+
+	// Forms of one shipper look alike even at full hash size; a
+	// near-identical image only counts if a key reference confirms it
+	if (
+		distance <= config.duplicates.maxHashDistance &&
+		sharesReference(page.references, earlier.references)
+	) {
+		return { match: "image", hashDistance: distance };
+	}
+	if (sameReferences(page.references, earlier.references)) {
+		return { match: "references", hashDistance: distance };
+	}
+	return null;
+}
+
+/**
+ * Pages of a group that repeat a page seen earlier in the batch or
+ * earlier in the same group. Each page is matched to the first such page.
+ */
+export function findDuplicatePages(
+	seen: PageFingerprint[],
+	fingerprints: PageFingerprint[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): DuplicatePage[] {
+	const duplicates: DuplicatePage[] = [];
+	for (const [i, page] of fingerprints.entries()) {
+		for (const earlier of [...seen, ...fingerprints.slice(0, i)]) {
+			const match = matchPages(page, earlier, config);
+			if (!match) continue;
+			duplicates.push({
+				group: page.group,
+				pageNumber: page.pageNumber,
+				duplicateOf: { group: earlier.group, pageNumber: earlier.pageNumber },
+				...match,
+				dropped: false,
+			});
+			break;
+		}
+	}
+	return duplicates;
+}
+
+/**
+ * The earlier group this group repeats as a whole: every relevant page
+ * duplicates a page of that one group. Null otherwise.
+ */
+export function duplicateGroupOf(
+	fingerprints: PageFingerprint[],
+	duplicates: DuplicatePage[],
+): string | null {
+	if (fingerprints.length === 0 || duplicates.length < fingerprints.length) {
+		return null;
+	}
+	const groups = new Set(duplicates.map((d) => d.duplicateOf.group));
+	const [group] = groups;
+	return groups.size === 1 && group !== fingerprints[0].group ? group : null;
+}
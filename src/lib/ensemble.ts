@@ -0,0 +1,144 @@
+import type {
+	FieldDisagreement,
+	TwoPassExtractionResult,
+} from "../types/index.js";
+
+/**
+ * Extractions returned by one ensemble member (a model/sample pair).
+ */
+export interface EnsembleRun {
+	model: string;
+	sample: number;
+	extractions: TwoPassExtractionResult[];
+}
+
+// Fields reconciled by majority vote; everything else comes from the
+// first run that returned the winning number of extractions
+const VOTED_FIELDS = [
+	"pickup.date",
+	"pickup.time",
+	"pickup.übernommen",
+	"pickup.überlassen",
+	"delivery.date",
+	"delivery.time",
+	"delivery.übernommen",
+	"delivery.überlassen",
+	"palletType",
+	"saldo",
+	"references.sendungsnummer",
+	"references.lieferscheinNr",
+	"references.ladenummer",
+	"references.dplVoucherNr",
+	"references.tourNr",
+	"exchangeStatus.exchanged",
+	"exchangeStatus.partial",
+	"exchangeStatus.dplIssued",
+	"exchangeStatus.nonExchangeReason",
+];
+
+function getField(target: object, field: string): unknown {
+	let value: unknown = target;
+	for (const key of field.split(".")) {
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+function setField(target: object, field: string, value: unknown): void {
+	const keys = field.split(".");
+	const last = keys.pop() as string;
+	let parent = target as Record<string, unknown>;
+	for (const key of keys) {
+		parent = parent[key] as Record<string, unknown>;
+	}
+	parent[last] = value;
+}
+
+/**
+ * Count votes per distinct value, most votes first.
+ * Ties go to the value seen first, i.e. the earlier run.
+ */
+function tally(values: unknown[]): FieldDisagreement["votes"] {
+	const votes = new Map<string, { value: unknown; count: number }>();
+	for (const value of values) {
+		const key = JSON.stringify(value ?? null);
+		const existing = votes.get(key);
+		if (existing) {
+			existing.count++;
+		} else {
+			votes.set(key, { value: value ?? null, count: 1 });
+		}
+	}
+	return [...votes.values()].sort((a, b) => b.count - a.count);
+}
+
+function voteExtraction(
+	candidates: TwoPassExtractionResult[],
+	models: string,
+	extraDisagreements: FieldDisagreement[],
+	penalty: number,
+): TwoPassExtractionResult {
+	const result = structuredClone(candidates[0]);
+	const disagreements = [...extraDisagreements];
+
+	for (const field of VOTED_FIELDS) {
+		const votes = tally(candidates.map((c) => getField(c, field)));
+		setField(result, field, votes[0].value);
+		if (votes.length > 1) {
+			disagreements.push({ field, votes });
+		}
+	}
+
+	const meanConfidence =
+		candidates.reduce((sum, c) => sum + c.confidence, 0) / candidates.length;
+
+	result.confidence = Math.max(
+		0,
+		meanConfidence - penalty * disagreements.length,
+	);
+	result.model = models;
+	result.disagreements = disagreements;
+	return result;
+}
+
+/**
+ * Reconcile ensemble runs into one set of extractions.
+ * Runs are aligned by position after voting on how many deliveries there
+ * are; runs that found a different number only count towards that vote.
+ */
+export function voteExtractions(
+	runs: EnsembleRun[],
+	disagreementPenalty: number,
+): TwoPassExtractionResult[] {
+	if (runs.length === 0) return [];
+
+	const countVotes = tally(runs.map((r) => r.extractions.length));
+	const count = countVotes[0].value as number;
+	const countDisagreements: FieldDisagreement[] =
+		countVotes.length > 1
+			? [{ field: "extractionCount", votes: countVotes }]
+			: [];
+
+	const aligned = runs.filter((r) => r.extractions.length === count);
+	const models = [...new Set(aligned.map((r) => r.model))].join(", ");
+
+	const extractions: TwoPassExtractionResult[] = [];
+	for (let i = 0; i < count; i++) {
+		extractions.push(
+			voteExtraction(
+				aligned.map((r) => r.extractions[i]),
+				models,
+				countDisagreements,
+				disagreementPenalty,
+			),
+		);
+	}
+	return extractions;
+}
+
+export function formatDisagreement(disagreement: FieldDisagreement): string {
+	const votes = disagreement.votes
+		.map((v) => `${JSON.stringify(v.value)} (${v.count})`)
+		.join(" vs ");
+	return `Ensemble disagreement on ${disagreement.field}: ${votes}`;
+}
@@ -1,10 +1,15 @@
-import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import { generateText } from "ai";
-import { env } from "../env.js";
-import { buildExtractionPrompt } from "../prompts/extraction.js";
+import { z } from "zod";
 import type {
+	CallAttempt,
+	ClassificationPassResult,
+	DeliverySegment,
+	FewShotExample,
+	ModelFallback,
 	PageClassification,
 	PDFPage,
+	ProcessingErrorCode,
+	RepairAttempt,
+	TokenUsage,
 	TwoPassCarrier,
 	TwoPassConfig,
 	TwoPassExchangeStatus,
@@ -13,54 +18,81 @@ import type {
 	TwoPassStopInfo,
 	V010PalletType,
 } from "../types/index.js";
-import { parseJSONResponse, withRetry } from "./ai-client.js";
+import {
+	type AIMessageContent,
+	generateStructured,
+	StructuredGenerationError,
+} from "./ai-client.js";
+import { applyBarcodeReferences } from "./barcode-reader.js";
+import { sha256, withCassette } from "./cassette.js";
 import { buildDocumentContext } from "./classifier.js";
 import { DEFAULT_CONFIG } from "./config.js";
+import { filterSegmentPages } from "./delivery-segmenter.js";
+import { type EnsembleRun, voteExtractions } from "./ensemble.js";
+import {
+	buildFewShotContent,
+	loadExampleLibrary,
+	selectExamples,
+} from "./few-shot.js";
+import {
+	createLanguageModel,
+	supportsStructuredOutputs,
+} from "./llm-provider.js";
+import {
+	averageConfidence,
+	type FallbackAssessment,
+	withModelFallback,
+} from "./model-fallback.js";
+import { releasePages } from "./page-store.js";
+import { buildPageContent } from "./pdf-processor.js";
+import { toProcessingError } from "./preflight.js";
+import { loadPrompt, renderPrompt } from "./prompt-registry.js";
+import {
+	type ResponseCacheRequest,
+	withResponseCache,
+} from "./response-cache.js";
+import { addTokenUsage, emptyTokenUsage, priceTokenUsage } from "./usage.js";
 
-interface RawExtractionResponse {
-	pickup: {
-		date: string | null;
-		time: string | null;
-		location: string | null;
-		address: string | null;
-		warehouseId?: string | null;
-		übernommen: number;
-		überlassen: number;
-	};
-	delivery: {
-		date: string | null;
-		time: string | null;
-		location: string | null;
-		address: string | null;
-		warehouseId?: string | null;
-		überlassen: number;
-		übernommen: number;
-	};
-	palletType: string;
-	saldo: number;
-	carrier: {
-		name: string | null;
-		licensePlate: string | null;
-		driverCode?: string | null;
-		driverName?: string | null;
-	};
-	references: {
-		sendungsnummer?: string | null;
-		lieferscheinNr?: string | null;
-		ladenummer?: string | null;
-		dplVoucherNr?: string | null;
-		tourNr?: string | null;
-	};
-	exchangeStatus: {
-		exchanged: boolean | null;
-		partial?: boolean;
-		comment?: string | null;
-		dplIssued?: boolean;
-		nonExchangeReason?: string | null;
-	};
-	confidence: number;
-	notes?: string | null;
-}
+const rawStopInfoSchema = z.object({
+	date: z.string().nullable(),
+	time: z.string().nullable(),
+	location: z.string().nullable(),
+	address: z.string().nullable(),
+	warehouseId: z.string().nullish(),
+	übernommen: z.number(),
+	überlassen: z.number(),
+});
+
+const rawExtractionSchema = z.object({
+	pickup: rawStopInfoSchema,
+	delivery: rawStopInfoSchema,
+	palletType: z.string(),
+	saldo: z.number(),
+	carrier: z.object({
+		name: z.string().nullable(),
+		licensePlate: z.string().nullable(),
+		driverCode: z.string().nullish(),
+		driverName: z.string().nullish(),
+	}),
+	references: z.object({
+		sendungsnummer: z.string().nullish(),
+		lieferscheinNr: z.string().nullish(),
+		ladenummer: z.string().nullish(),
+		dplVoucherNr: z.string().nullish(),
+		tourNr: z.string().nullish(),
+	}),
+	exchangeStatus: z.object({
+		exchanged: z.boolean().nullable(),
+		partial: z.boolean().optional(),
+		comment: z.string().nullish(),
+		dplIssued: z.boolean().optional(),
+		nonExchangeReason: z.string().nullish(),
+	}),
+	confidence: z.number(),
+	notes: z.string().nullish(),
+});
+
+type RawExtractionResponse = z.infer<typeof rawExtractionSchema>;
 
 const VALID_PALLET_TYPES: V010PalletType[] = [
 	"EURO-Palette",
@@ -207,6 +239,9 @@ function normalizeExchangeStatus(
 
 function normalizeExtraction(
 	raw: RawExtractionResponse,
+	model: string,
+	promptVersion: string,
+	fewShotExamples: string[],
 ): TwoPassExtractionResult {
 	return {
 		pickup: normalizeStopInfo(raw.pickup),
@@ -218,95 +253,346 @@ function normalizeExtraction(
 		exchangeStatus: normalizeExchangeStatus(raw.exchangeStatus),
 		confidence: Math.max(0, Math.min(1, raw.confidence ?? 0.5)),
 		notes: raw.notes || null,
+		model,
+		disagreements: [],
+		barcodeReferences: [],
+		promptVersion,
+		fewShotExamples,
 	};
 }
 
+/**
+ * Few-shot example library, with expected outputs checked against the
+ * extraction response schema.
+ */
+export function loadExtractionExamples(
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<FewShotExample[]> {
+	return loadExampleLibrary(config, rawExtractionSchema);
+}
+
+export interface PalletDataExtraction {
+	extractions: TwoPassExtractionResult[];
+	repairAttempts: RepairAttempt[];
+	callAttempts: CallAttempt[];
+	usage: TokenUsage;
+	cacheHit: boolean;
+}
+
 export async function extractPalletData(
 	relevantPages: PDFPage[],
 	classifications: PageClassification[],
 	config: TwoPassConfig = DEFAULT_CONFIG,
-): Promise<TwoPassExtractionResult[]> {
+	model: string = config.extraction.model,
+	sample = 0,
+): Promise<PalletDataExtraction> {
 	if (relevantPages.length === 0) {
 		throw new Error("No relevant pages to extract from");
 	}
 
-	const openrouter = createOpenRouter({
-		apiKey: env.OPENROUTER_API_KEY,
-	});
+	const extractionModel = createLanguageModel(model, config.provider);
 
-	const extractionModel = openrouter(config.extraction.model);
+	const promptTemplate = await loadPrompt("extraction", config);
+	const prompt = renderPrompt(
+		promptTemplate,
+		{
+			DOCUMENT_CONTEXT: buildDocumentContext(classifications),
+			DOCUMENT_TYPES: [
+				...new Set(classifications.map((c) => c.documentType)),
+			].join(", "),
+			PAGE_COUNT: String(relevantPages.length),
+		},
+		config,
+	);
 
-	const documentContext = buildDocumentContext(classifications);
-	const prompt = buildExtractionPrompt(documentContext);
+	const examples = selectExamples(
+		await loadExtractionExamples(config),
+		classifications.map((c) => c.documentType),
+		config.fewShot.maxExamples,
+	);
 
-	const content: Array<
-		{ type: "image"; image: string } | { type: "text"; text: string }
-	> = [
-		...relevantPages.map((p) => ({
-			type: "image" as const,
-			image: p.imageBase64,
-		})),
+	const content: AIMessageContent[] = [
+		...buildFewShotContent(examples),
+		...(await buildPageContent(relevantPages, config)),
 		{ type: "text" as const, text: prompt },
 	];
 
-	const response = await withRetry(async () => {
-		const result = await generateText({
-			model: extractionModel,
-			messages: [
-				{
-					role: "user",
-					content,
-				},
-			],
-		});
-		return result.text;
-	});
+	const structuredOutputs = supportsStructuredOutputs(config.provider);
+	// Examples and text layers are part of the request, so of the cache key
+	const request: ResponseCacheRequest = {
+		model,
+		prompt: content
+			.flatMap((c) => (c.type === "text" ? [c.text] : []))
+			.join("\n\n"),
+		imageHashes: content.flatMap((c) =>
+			c.type === "image" ? [sha256(c.image)] : [],
+		),
+		sample,
+		params: {
+			provider: config.provider.type,
+			temperature: config.extraction.temperature,
+			maxTokens: config.extraction.maxTokens,
+			structuredOutputs,
+		},
+	};
 
-	const parsed = parseJSONResponse<
-		RawExtractionResponse | RawExtractionResponse[]
-	>(response);
+	const recorded = await withCassette(request, config.cassette, () =>
+		withResponseCache(request, config.cache, () =>
+			generateStructured({
+				model: extractionModel,
+				modelId: model,
+				content,
+				schema: rawExtractionSchema,
+				pass: "extraction",
+				structuredOutputs,
+				temperature: config.extraction.temperature,
+				maxTokens: config.extraction.maxTokens,
+				maxRepairAttempts: config.extraction.maxRepairAttempts,
+				retry: config.retry,
+			}),
+		),
+	);
+	const { response } = recorded;
+	// A replayed recording makes no calls either, just like a cache hit
+	const cacheHit = recorded.cacheHit || config.cassette.mode === "replay";
+	const { data, repairAttempts, callAttempts, usage } = response;
 
-	if (Array.isArray(parsed)) {
-		return parsed.map(normalizeExtraction);
-	}
-
-	return [normalizeExtraction(parsed)];
+	return {
+		extractions: data.map((raw) =>
+			normalizeExtraction(
+				raw,
+				model,
+				promptTemplate.id,
+				examples.map((e) => e.id),
+			),
+		),
+		repairAttempts: cacheHit ? [] : repairAttempts,
+		callAttempts: cacheHit ? [] : callAttempts,
+		usage: cacheHit
+			? emptyTokenUsage()
+			: priceTokenUsage(usage, model, config.pricing),
+		cacheHit,
+	};
 }
 
 export interface TwoPassExtractionPipelineResult {
 	extractions: TwoPassExtractionResult[];
+	repairAttempts: RepairAttempt[];
+	callAttempts: CallAttempt[];
+	usage: TokenUsage;
+	cacheHit: boolean;
+	fallbacks: ModelFallback[];
 	success: boolean;
 	error?: string;
+	// Set with error: what kind of failure it was
+	errorCode?: ProcessingErrorCode;
 	processingTimeMs: number;
 }
 
+function assessExtractions(
+	extractions: TwoPassExtractionResult[],
+	config: TwoPassConfig,
+): FallbackAssessment {
+	if (extractions.length === 0) {
+		return { confidence: 0, rejectReason: "no extractions returned" };
+	}
+
+	const threshold = config.validation.lowConfidenceThreshold;
+	const lowest = Math.min(...extractions.map((e) => e.confidence));
+	return {
+		confidence: averageConfidence(extractions),
+		rejectReason:
+			lowest < threshold
+				? `confidence ${lowest.toFixed(2)} below ${threshold}`
+				: null,
+	};
+}
+
+type ExtractWithModel = (
+	model: string,
+	sample?: number,
+) => Promise<PalletDataExtraction>;
+
+/**
+ * Run every ensemble member (each model, samples times). Failed runs are
+ * skipped; the pass only fails if none succeed.
+ */
+async function runEnsemble(
+	config: TwoPassConfig,
+	extract: ExtractWithModel,
+): Promise<{ runs: EnsembleRun[]; cacheHit: boolean }> {
+	const models =
+		config.ensemble.models.length > 0
+			? config.ensemble.models
+			: [config.extraction.model];
+	const runs: EnsembleRun[] = [];
+	let cacheHit = true;
+	let lastError: unknown;
+
+	for (const model of models) {
+		for (let sample = 0; sample < config.ensemble.samples; sample++) {
+			try {
+				const result = await extract(model, sample);
+				runs.push({ model, sample, extractions: result.extractions });
+				cacheHit &&= result.cacheHit;
+			} catch (error) {
+				lastError = error;
+				const message = error instanceof Error ? error.message : String(error);
+				console.warn(
+					`  Ensemble run ${model} #${sample + 1} failed: ${message}`,
+				);
+			}
+		}
+	}
+
+	if (runs.length === 0) {
+		throw lastError;
+	}
+
+	return { runs, cacheHit };
+}
+
 export async function runExtractionPass(
 	relevantPages: PDFPage[],
 	classifications: PageClassification[],
 	config: TwoPassConfig = DEFAULT_CONFIG,
 ): Promise<TwoPassExtractionPipelineResult> {
 	const startTime = Date.now();
+	const repairAttempts: RepairAttempt[] = [];
+	const callAttempts: CallAttempt[] = [];
+	let usage = emptyTokenUsage();
+	let fallbacks: ModelFallback[] = [];
+
+	// Collects attempts and usage from every call, including failed ones
+	const extract: ExtractWithModel = async (model, sample = 0) => {
+		try {
+			const result = await extractPalletData(
+				relevantPages,
+				classifications,
+				config,
+				model,
+				sample,
+			);
+			repairAttempts.push(...result.repairAttempts);
+			callAttempts.push(...result.callAttempts);
+			usage = addTokenUsage(usage, result.usage);
+			return result;
+		} catch (error) {
+			if (error instanceof StructuredGenerationError) {
+				repairAttempts.push(...error.repairAttempts);
+				callAttempts.push(...error.callAttempts);
+			}
+			throw error;
+		}
+	};
 
 	try {
-		const extractions = await extractPalletData(
-			relevantPages,
-			classifications,
-			config,
+		if (config.ensemble.enabled) {
+			const { runs, cacheHit } = await runEnsemble(config, extract);
+
+			return {
+				extractions: applyBarcodeReferences(
+					voteExtractions(runs, config.ensemble.disagreementPenalty),
+					relevantPages,
+					classifications,
+					config,
+				),
+				repairAttempts,
+				callAttempts,
+				usage,
+				cacheHit,
+				fallbacks,
+				success: true,
+				processingTimeMs: Date.now() - startTime,
+			};
+		}
+
+		const models = [
+			config.extraction.model,
+			...config.extraction.fallbackModels,
+		];
+		const outcome = await withModelFallback(
+			"extraction",
+			models,
+			async (model) => {
+				try {
+					return await extract(model);
+				} catch (error) {
+					fallbacks = [
+						...fallbacks,
+						{
+							pass: "extraction",
+							model,
+							reason: error instanceof Error ? error.message : String(error),
+						},
+					];
+					throw error;
+				}
+			},
+			(result) => assessExtractions(result.extractions, config),
 		);
 
 		return {
-			extractions,
+			extractions: applyBarcodeReferences(
+				outcome.result.extractions,
+				relevantPages,
+				classifications,
+				config,
+			),
+			repairAttempts,
+			callAttempts,
+			usage,
+			cacheHit: outcome.result.cacheHit,
+			fallbacks: outcome.fallbacks,
 			success: true,
 			processingTimeMs: Date.now() - startTime,
 		};
 	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
+		const { code, message } = toProcessingError(error);
 
 		return {
 			extractions: [],
+			repairAttempts,
+			callAttempts,
+			usage,
+			cacheHit: false,
+			fallbacks,
 			success: false,
-			error: errorMessage,
+			error: message,
+			errorCode: code,
 			processingTimeMs: Date.now() - startTime,
 		};
 	}
 }
+
+/**
+ * Run the extraction pass once per delivery segment of an input. A failed
+ * segment does not stop the others. Each segment's page images are
+ * released once it has been extracted.
+ */
+export async function runSegmentedExtraction(
+	pages: PDFPage[],
+	classification: ClassificationPassResult,
+	segments: DeliverySegment[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<
+	Array<{ segment: DeliverySegment; result: TwoPassExtractionPipelineResult }>
+> {
+	const results: Array<{
+		segment: DeliverySegment;
+		result: TwoPassExtractionPipelineResult;
+	}> = [];
+	for (const segment of segments) {
+		const { relevantPages, metadata } = filterSegmentPages(
+			pages,
+			classification,
+			segment,
+		);
+		results.push({
+			segment,
+			result: await runExtractionPass(relevantPages, metadata, config),
+		});
+		await releasePages(relevantPages);
+	}
+	return results;
+}
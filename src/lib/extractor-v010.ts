@@ -3,6 +3,7 @@ import { V010_EXTRACTION_PROMPT } from "../prompts/v010.js";
 import type {
 	DocumentGroup,
 	GroupExtractionResult,
+	TwoPassConfig,
 	V010DocumentSubtype,
 	V010DocumentType,
 	V010ExtractionData,
@@ -17,6 +18,8 @@ import {
 	parseJSONResponse,
 	withRetry,
 } from "./ai-client.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { readPageImageBase64 } from "./page-store.js";
 
 function getExtractionPrompt(): string {
 	const envPrompt = decodePrompt(env.EXTRACTION_PROMPT_BASE64);
@@ -284,15 +287,23 @@ function normalizeExtraction(raw: RawV010Response): V010ExtractionData {
 
 export async function extractDocumentGroup(
 	group: DocumentGroup,
+	config: TwoPassConfig = DEFAULT_CONFIG,
 ): Promise<GroupExtractionResult> {
 	const startTime = Date.now();
 
 	try {
-		const images = group.pages.map((p) => p.imageBase64);
+		const images = await Promise.all(group.pages.map(readPageImageBase64));
 
-		const response = await withRetry(async () => {
-			return analyzeMultipleImages(images, getExtractionPrompt());
-		});
+		const response = await withRetry(
+			(abortSignal) =>
+				analyzeMultipleImages(
+					images,
+					getExtractionPrompt(),
+					config,
+					abortSignal,
+				),
+			{ policy: config.retry },
+		);
 
 		const parsed = parseJSONResponse<RawV010Response | RawV010Response[]>(
 			response,
@@ -0,0 +1,198 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import type {
+	FewShotExample,
+	TwoPassConfig,
+	TwoPassDocumentType,
+} from "../types/index.js";
+import type { AIMessageContent } from "./ai-client.js";
+import { VALID_DOCUMENT_TYPES } from "./classifier.js";
+import { formatSchemaErrors } from "./schema-errors.js";
+
+const EXAMPLE_FILE = "example.json";
+
+const exampleFileSchema = z.strictObject({
+	documentTypes: z
+		.array(z.enum(VALID_DOCUMENT_TYPES as [string, ...string[]]))
+		.min(1),
+	// Page image files relative to the example directory, in page order
+	pages: z.array(z.string().min(1)).min(1),
+	notes: z.string().optional(),
+	expected: z.array(z.unknown()).min(1),
+});
+
+// Libraries are read once per directory and reused across groups
+const libraries = new Map<string, Promise<FewShotExample[]>>();
+
+async function readExample(
+	dir: string,
+	id: string,
+	expectedSchema: z.ZodType,
+): Promise<FewShotExample> {
+	const exampleDir = path.join(dir, id);
+	const filePath = path.join(exampleDir, EXAMPLE_FILE);
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(await fs.readFile(filePath, "utf-8"));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`${filePath}: ${message}`);
+	}
+
+	const file = exampleFileSchema.safeParse(parsed);
+	if (!file.success) {
+		throw new Error(
+			`${filePath}: ${formatSchemaErrors(file.error).join("; ")}`,
+		);
+	}
+
+	const errors = file.data.expected.flatMap((item, i) => {
+		const result = expectedSchema.safeParse(item);
+		return result.success
+			? []
+			: formatSchemaErrors(result.error).map((e) => `expected.${i}.${e}`);
+	});
+	if (errors.length > 0) {
+		throw new Error(`${filePath}: ${errors.join("; ")}`);
+	}
+
+	const images: string[] = [];
+	for (const page of file.data.pages) {
+		try {
+			const buffer = await fs.readFile(path.join(exampleDir, page));
+			images.push(buffer.toString("base64"));
+		} catch {
+			throw new Error(`${filePath}: page image not found: ${page}`);
+		}
+	}
+
+	return {
+		id,
+		documentTypes: file.data.documentTypes as TwoPassDocumentType[],
+		images,
+		notes: file.data.notes ?? null,
+		expected: file.data.expected,
+	};
+}
+
+async function readLibrary(
+	dir: string,
+	expectedSchema: z.ZodType,
+): Promise<FewShotExample[]> {
+	let entries: string[];
+	try {
+		const dirents = await fs.readdir(dir, { withFileTypes: true });
+		entries = dirents
+			.filter((d) => d.isDirectory())
+			.map((d) => d.name)
+			.sort();
+	} catch {
+		// No library yet: run without examples
+		return [];
+	}
+
+	const examples: FewShotExample[] = [];
+	const errors: string[] = [];
+	for (const id of entries) {
+		try {
+			examples.push(await readExample(dir, id, expectedSchema));
+		} catch (error) {
+			errors.push(error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	if (errors.length > 0) {
+		throw new Error(
+			`Invalid few-shot examples in ${dir}:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+		);
+	}
+
+	return examples;
+}
+
+/**
+ * Load the example library, validating each example's expected output
+ * against the extraction response schema.
+ */
+export async function loadExampleLibrary(
+	config: TwoPassConfig,
+	expectedSchema: z.ZodType,
+): Promise<FewShotExample[]> {
+	if (!config.fewShot.enabled) {
+		return [];
+	}
+
+	const dir = path.resolve(config.fewShot.dir);
+	let library = libraries.get(dir);
+	if (!library) {
+		library = readLibrary(dir, expectedSchema);
+		libraries.set(dir, library);
+		// Do not cache failures so a fixed library is picked up
+		library.catch(() => libraries.delete(dir));
+	}
+	return library;
+}
+
+/**
+ * Pick the examples that share the most document types with the pages
+ * being extracted.
+ */
+export function selectExamples(
+	library: FewShotExample[],
+	documentTypes: TwoPassDocumentType[],
+	maxExamples: number,
+): FewShotExample[] {
+	const wanted = new Set(documentTypes);
+
+	return library
+		.map((example) => ({
+			example,
+			matches: example.documentTypes.filter((t) => wanted.has(t)).length,
+		}))
+		.filter((m) => m.matches > 0)
+		.sort((a, b) => b.matches - a.matches)
+		.slice(0, maxExamples)
+		.map((m) => m.example);
+}
+
+/**
+ * Message content presenting the examples ahead of the real document.
+ */
+export function buildFewShotContent(
+	examples: FewShotExample[],
+): AIMessageContent[] {
+	if (examples.length === 0) {
+		return [];
+	}
+
+	const content: AIMessageContent[] = [
+		{
+			type: "text",
+			text: `The following ${examples.length} example(s) show documents of the same kind together with their correct extraction.`,
+		},
+	];
+
+	examples.forEach((example, i) => {
+		const notes = example.notes ? `\n${example.notes}` : "";
+		content.push({
+			type: "text",
+			text: `Example ${i + 1} (${example.documentTypes.join(", ")}):${notes}`,
+		});
+		for (const image of example.images) {
+			content.push({ type: "image", image });
+		}
+		content.push({
+			type: "text",
+			text: `Correct output for example ${i + 1}:\n${JSON.stringify(example.expected, null, 2)}`,
+		});
+	});
+
+	content.push({
+		type: "text",
+		text: "End of examples. The document to extract follows.",
+	});
+
+	return content;
+}
@@ -0,0 +1,207 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { GroupingProfile, TwoPassConfig } from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { extractFilePrefix } from "./document-grouper.js";
+
+/**
+ * The group key a file got and the rule that produced it
+ */
+export interface FileGroupAssignment {
+	file: string;
+	key: string;
+	reason: string;
+}
+
+// Manifest file name → delivery, with the line it came from
+type Manifest = Map<string, { delivery: string; line: number }>;
+
+/**
+ * The configured grouping profile, or null for the built-in rules.
+ */
+export function resolveGroupingProfile(
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): GroupingProfile | null {
+	const { profile, profiles } = config.grouping;
+	if (profile === null) {
+		return null;
+	}
+	const found = profiles[profile];
+	if (!found) {
+		const known = Object.keys(profiles);
+		throw new Error(
+			`Unknown grouping profile "${profile}" (${known.length > 0 ? `configured: ${known.join(", ")}` : "none configured"})`,
+		);
+	}
+	return found;
+}
+
+// Keys become output file names
+function toKey(value: string): string {
+	return value.trim().replace(/[^\w.-]+/g, "_");
+}
+
+function splitCsvLine(line: string): string[] {
+	const cells: string[] = [];
+	let cell = "";
+	let quoted = false;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === "," || char === ";") {
+			cells.push(cell.trim());
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	cells.push(cell.trim());
+	return cells;
+}
+
+/**
+ * Read a manifest CSV with a file name and a delivery per line (comma or
+ * semicolon separated). A header row starting with "file" and lines
+ * starting with # are skipped. Returns null if the file does not exist.
+ */
+async function readManifest(manifestPath: string): Promise<Manifest | null> {
+	let text: string;
+	try {
+		text = await fs.readFile(manifestPath, "utf-8");
+	} catch {
+		return null;
+	}
+
+	const manifest: Manifest = new Map();
+	for (const [i, line] of text.split(/\r?\n/).entries()) {
+		if (!line.trim() || line.trimStart().startsWith("#")) continue;
+		const [file, delivery] = splitCsvLine(line);
+		if (i === 0 && file.toLowerCase() === "file") continue;
+		if (!file || !delivery) {
+			throw new Error(
+				`Grouping manifest ${manifestPath} line ${i + 1}: expected "file,delivery"`,
+			);
+		}
+		manifest.set(file, { delivery, line: i + 1 });
+	}
+	return manifest;
+}
+
+function defaultAssignment(file: string, why?: string): FileGroupAssignment {
+	return {
+		file,
+		key: extractFilePrefix(file),
+		reason: why ? `${why}, built-in rules` : "built-in rules",
+	};
+}
+
+/**
+ * Decide the group key of every file by the configured profile. Manifest
+ * paths are resolved against each file's directory, so every input
+ * directory can carry its own manifest.
+ */
+export async function assignFileGroups(
+	filePaths: string[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<FileGroupAssignment[]> {
+	const profile = resolveGroupingProfile(config);
+	const manifests = new Map<string, Manifest | null>();
+	const assignments: FileGroupAssignment[] = [];
+
+	for (const file of filePaths) {
+		const name = path.basename(file, path.extname(file));
+
+		if (profile?.type === "regex") {
+			const match = new RegExp(profile.pattern, profile.flags).exec(name);
+			if (!match) {
+				assignments.push(
+					defaultAssignment(file, `no match for /${profile.pattern}/`),
+				);
+				continue;
+			}
+			const groups = match.slice(1).filter((group) => group !== undefined);
+			assignments.push({
+				file,
+				key: toKey(groups.length > 0 ? groups.join("-") : match[0]),
+				reason: `matched /${profile.pattern}/`,
+			});
+		} else if (profile?.type === "separators") {
+			const parts = name
+				.split(
+					new RegExp(`[${profile.separators.replace(/[\\\]^-]/g, "\\$&")}]`),
+				)
+				.filter(Boolean);
+			if (parts.length < profile.fields) {
+				assignments.push(
+					defaultAssignment(file, `fewer than ${profile.fields} fields`),
+				);
+				continue;
+			}
+			assignments.push({
+				file,
+				key: toKey(parts.slice(0, profile.fields).join("-")),
+				reason: `first ${profile.fields} field(s) split at "${profile.separators}"`,
+			});
+		} else if (profile?.type === "manifest") {
+			const manifestPath = path.resolve(path.dirname(file), profile.file);
+			if (!manifests.has(manifestPath)) {
+				manifests.set(manifestPath, await readManifest(manifestPath));
+			}
+			const manifest = manifests.get(manifestPath);
+			const entry = manifest?.get(path.basename(file));
+			if (!entry) {
+				assignments.push(
+					defaultAssignment(
+						file,
+						manifest
+							? `not listed in ${profile.file}`
+							: `no ${profile.file} next to the file`,
+					),
+				);
+				continue;
+			}
+			assignments.push({
+				file,
+				key: toKey(entry.delivery),
+				reason: `${profile.file} line ${entry.line}`,
+			});
+		} else {
+			assignments.push(defaultAssignment(file));
+		}
+	}
+
+	return assignments;
+}
+
+/**
+ * Group files by the configured profile: group key → the assignments of
+ * its files, sorted by path.
+ */
+export async function groupFilesByProfile(
+	filePaths: string[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<Map<string, FileGroupAssignment[]>> {
+	const groups = new Map<string, FileGroupAssignment[]>();
+	// Sorted input keeps the files of each group in a consistent order
+	for (const assignment of await assignFileGroups(
+		[...filePaths].sort(),
+		config,
+	)) {
+		groups.set(assignment.key, [
+			...(groups.get(assignment.key) ?? []),
+			assignment,
+		]);
+	}
+
+	return groups;
+}
@@ -0,0 +1,490 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { unzipSync } from "fflate";
+import PostalMime, { type Address } from "postal-mime";
+import type {
+	ContainerFailure,
+	GroupSource,
+	InputGroup,
+	TwoPassConfig,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { looseFileSource } from "./document-grouper.js";
+import { groupFilesByProfile } from "./grouping-profiles.js";
+import { isSupportedInput } from "./input-loader.js";
+import { InputError } from "./preflight.js";
+
+const EMAIL_EXTENSION = ".eml";
+const ARCHIVE_EXTENSION = ".zip";
+// Emails forwarded as attachments of zipped emails, and so on
+const MAX_NESTING_DEPTH = 3;
+
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+	"application/pdf": ".pdf",
+	"image/tiff": ".tif",
+	"image/jpeg": ".jpg",
+	"image/png": ".png",
+	"image/heic": ".heic",
+	"application/zip": ".zip",
+	"message/rfc822": ".eml",
+};
+
+/**
+ * Documents unpacked from one container, ready to be grouped.
+ */
+interface Unpacked {
+	// Extracted document path and its name inside the container
+	documents: Array<{ file: string; entry: string }>;
+	// Emails found inside an archive form groups of their own
+	groups: InputGroup[];
+}
+
+/**
+ * What may still be unpacked from one top-level container, shared by the
+ * archives and emails nested in it
+ */
+interface UnpackBudget {
+	container: string;
+	bytes: number;
+	entries: number;
+}
+
+const CONTAINER_MIME_TYPES: Record<string, string> = {
+	"message/rfc822": EMAIL_EXTENSION,
+	"application/zip": ARCHIVE_EXTENSION,
+	"application/x-zip-compressed": ARCHIVE_EXTENSION,
+};
+
+/**
+ * ".eml" or ".zip" for containers, by extension or else by MIME type.
+ */
+export function containerExtension(
+	filePath: string,
+	mimeType?: string,
+): string | null {
+	const extension = path.extname(filePath).toLowerCase();
+	if (extension === EMAIL_EXTENSION || extension === ARCHIVE_EXTENSION) {
+		return extension;
+	}
+	return (mimeType ? CONTAINER_MIME_TYPES[mimeType] : undefined) ?? null;
+}
+
+function isContainer(filePath: string): boolean {
+	return containerExtension(filePath) !== null;
+}
+
+export function isIngestible(filePath: string): boolean {
+	return isSupportedInput(filePath) || isContainer(filePath);
+}
+
+export async function findIngestibleFiles(dirPath: string): Promise<string[]> {
+	const absolutePath = path.resolve(dirPath);
+	const entries = await fs.readdir(absolutePath, { withFileTypes: true });
+
+	return entries
+		.filter((entry) => entry.isFile() && isIngestible(entry.name))
+		.map((entry) => path.join(absolutePath, entry.name))
+		.sort();
+}
+
+/**
+ * Resolve an entry name of `container` inside `dir`, refusing names that
+ * would escape it.
+ */
+function safeJoin(dir: string, name: string, container: string): string {
+	const target = path.resolve(dir, name.replace(/\\/g, "/"));
+	if (!target.startsWith(path.resolve(dir) + path.sep)) {
+		throw new InputError(
+			"malformed",
+			`Refusing to extract ${name} outside the container: ${container}`,
+			container,
+		);
+	}
+	return target;
+}
+
+async function writeEntry(
+	dir: string,
+	name: string,
+	data: Uint8Array,
+	container: string,
+): Promise<string> {
+	const target = safeJoin(dir, name, container);
+	await fs.mkdir(path.dirname(target), { recursive: true });
+	await fs.writeFile(target, data);
+	return target;
+}
+
+function formatAddress(address: Address | undefined): string | null {
+	if (!address) return null;
+	if (address.address === undefined) {
+		return address.group.map((m) => m.address).join(", ") || address.name;
+	}
+	return address.name
+		? `${address.name} <${address.address}>`
+		: address.address;
+}
+
+function attachmentName(
+	filename: string | null,
+	mimeType: string,
+	index: number,
+): string {
+	const name = path.basename(filename ?? "").trim();
+	if (name) return name;
+	return `attachment_${index + 1}${ATTACHMENT_EXTENSIONS[mimeType] ?? ""}`;
+}
+
+function emailSource(
+	container: string,
+	email: { subject?: string; from?: Address; date?: string },
+): GroupSource {
+	return {
+		kind: "email",
+		container,
+		subject: email.subject ?? null,
+		from: formatAddress(email.from),
+		date: email.date ?? null,
+		entries: [],
+	};
+}
+
+/**
+ * Unpack the document attachments of an email. Attached archives and
+ * forwarded emails are unpacked too and their documents join this email.
+ */
+async function unpackEmail(
+	data: Uint8Array,
+	container: string,
+	workDir: string,
+	depth: number,
+	budget: UnpackBudget,
+	config: TwoPassConfig,
+): Promise<{ source: GroupSource; documents: Unpacked["documents"] }> {
+	let email: Awaited<ReturnType<typeof PostalMime.parse>>;
+	try {
+		email = await PostalMime.parse(data, {
+			attachmentEncoding: "arraybuffer",
+		});
+	} catch (error) {
+		throw unreadableContainer(error, container);
+	}
+	const source = emailSource(container, email);
+	const documents: Unpacked["documents"] = [];
+	const names = new Set<string>();
+
+	for (const [i, attachment] of email.attachments.entries()) {
+		// Logos and signatures embedded in the HTML body
+		if (attachment.related) continue;
+
+		let name = attachmentName(attachment.filename, attachment.mimeType, i);
+		// Scanner apps happily attach several files called scan.pdf
+		if (names.has(name)) {
+			name = `${i + 1}_${name}`;
+		}
+		names.add(name);
+		const content =
+			typeof attachment.content === "string"
+				? new TextEncoder().encode(attachment.content)
+				: new Uint8Array(attachment.content);
+		if (isIngestible(name)) {
+			spendBudget(budget, content.length, config);
+		}
+
+		if (isSupportedInput(name)) {
+			documents.push({
+				file: await writeEntry(workDir, name, content, container),
+				entry: name,
+			});
+		} else if (isContainer(name) && depth < MAX_NESTING_DEPTH) {
+			const nested = await unpackContainer(
+				name,
+				content,
+				`${container}/${name}`,
+				path.join(workDir, path.basename(name)),
+				depth + 1,
+				budget,
+				config,
+			);
+			documents.push(
+				...nested.documents.map((d) => ({
+					file: d.file,
+					entry: `${name}/${d.entry}`,
+				})),
+			);
+			for (const group of nested.groups) {
+				documents.push(
+					...group.files.map((file, j) => ({
+						file,
+						entry: `${name}/${group.source.entries[j]}`,
+					})),
+				);
+			}
+		}
+	}
+
+	return { source, documents };
+}
+
+// fflate or postal-mime could not read the container
+function unreadableContainer(error: unknown, container: string): InputError {
+	return new InputError(
+		"malformed",
+		`Cannot unpack ${container} (${error instanceof Error ? error.message : String(error)})`,
+		container,
+	);
+}
+
+/**
+ * Take an entry of `size` uncompressed bytes from the budget, or refuse
+ * the container if that exceeds it.
+ */
+function spendBudget(
+	budget: UnpackBudget,
+	size: number,
+	config: TwoPassConfig,
+): void {
+	budget.entries--;
+	budget.bytes -= size;
+	if (budget.entries < 0) {
+		throw new InputError(
+			"file_too_large",
+			`Archive holds more than ${config.input.maxArchiveEntries} documents: ${budget.container}`,
+			budget.container,
+		);
+	}
+	if (budget.bytes < 0) {
+		throw new InputError(
+			"file_too_large",
+			`Archive unpacks to more than ${config.input.maxArchiveSizeMb} MB: ${budget.container}`,
+			budget.container,
+		);
+	}
+}
+
+/**
+ * Extract the documents in a ZIP archive. Emails inside the archive become
+ * groups of their own; everything else is grouped by prefix by the caller.
+ * Entries are charged to the budget by their declared size before they
+ * are decompressed.
+ */
+async function unpackArchive(
+	data: Uint8Array,
+	container: string,
+	workDir: string,
+	depth: number,
+	budget: UnpackBudget,
+	config: TwoPassConfig,
+): Promise<Unpacked> {
+	let entries: Record<string, Uint8Array>;
+	try {
+		entries = unzipSync(data, {
+			filter: (file) => {
+				if (
+					file.name.endsWith("/") ||
+					file.name.startsWith("__MACOSX/") ||
+					!isIngestible(file.name)
+				) {
+					return false;
+				}
+				spendBudget(budget, file.originalSize, config);
+				return true;
+			},
+		});
+	} catch (error) {
+		// Over budget is already typed
+		if (error instanceof InputError) throw error;
+		throw unreadableContainer(error, container);
+	}
+
+	const unpacked: Unpacked = { documents: [], groups: [] };
+	for (const [entry, content] of Object.entries(entries).sort(([a], [b]) =>
+		a.localeCompare(b),
+	)) {
+		if (isSupportedInput(entry)) {
+			unpacked.documents.push({
+				file: await writeEntry(workDir, entry, content, container),
+				entry,
+			});
+		} else if (depth < MAX_NESTING_DEPTH) {
+			const nested = await unpackContainer(
+				entry,
+				content,
+				`${container}/${entry}`,
+				safeJoin(workDir, entry, container),
+				depth + 1,
+				budget,
+				config,
+			);
+			unpacked.documents.push(
+				...nested.documents.map((d) => ({
+					file: d.file,
+					entry: `${entry}/${d.entry}`,
+				})),
+			);
+			unpacked.groups.push(...nested.groups);
+		}
+	}
+	return unpacked;
+}
+
+async function unpackContainer(
+	name: string,
+	data: Uint8Array,
+	container: string,
+	workDir: string,
+	depth: number,
+	budget: UnpackBudget,
+	config: TwoPassConfig,
+): Promise<Unpacked> {
+	if (path.extname(name).toLowerCase() === ARCHIVE_EXTENSION) {
+		return unpackArchive(data, container, workDir, depth, budget, config);
+	}
+
+	const { source, documents } = await unpackEmail(
+		data,
+		container,
+		workDir,
+		depth,
+		budget,
+		config,
+	);
+	if (documents.length === 0) {
+		console.warn(`No document attachments in ${container}`);
+		return { documents: [], groups: [] };
+	}
+	return {
+		documents: [],
+		groups: [
+			{
+				prefix: path.basename(name, path.extname(name)),
+				files: documents.map((d) => d.file),
+				source: { ...source, entries: documents.map((d) => d.entry) },
+				reasons: documents.map(() => `attachment of ${container}`),
+			},
+		],
+	};
+}
+
+async function prefixGroups(
+	documents: Unpacked["documents"],
+	source: Omit<GroupSource, "entries">,
+	config: TwoPassConfig,
+): Promise<InputGroup[]> {
+	const entries = new Map(documents.map((d) => [d.file, d.entry]));
+	const groups = await groupFilesByProfile(
+		documents.map((d) => d.file),
+		config,
+	);
+	return [...groups].map(([prefix, assignments]) => ({
+		prefix,
+		files: assignments.map((a) => a.file),
+		source: {
+			...source,
+			entries: assignments.map((a) => entries.get(a.file) ?? a.file),
+		},
+		reasons: assignments.map((a) => a.reason),
+	}));
+}
+
+/**
+ * Turn input files into document groups. Loose documents are grouped by
+ * file name (built-in prefix rules or the configured grouping profile);
+ * each email becomes one group with its subject and sender; archives are
+ * extracted into `workDir` and their documents grouped by file name with
+ * the archive path as source. A container that cannot be unpacked is
+ * listed under failures and does not stop the others.
+ */
+export async function collectInputGroups(
+	filePaths: string[],
+	workDir: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<{ groups: InputGroup[]; failures: ContainerFailure[] }> {
+	const looseGroups = await groupFilesByProfile(
+		filePaths.filter((file) => !isContainer(file)),
+		config,
+	);
+	const groups: InputGroup[] = [...looseGroups].map(([prefix, assignments]) => {
+		const files = assignments.map((a) => a.file);
+		return {
+			prefix,
+			files,
+			source: looseFileSource(files),
+			reasons: assignments.map((a) => a.reason),
+		};
+	});
+
+	const failures: ContainerFailure[] = [];
+
+	for (const file of filePaths.filter(isContainer)) {
+		const name = path.basename(file);
+		let unpacked: Unpacked;
+		try {
+			unpacked = await unpackContainer(
+				name,
+				new Uint8Array(await fs.readFile(file)),
+				file,
+				path.join(workDir, name),
+				0,
+				{
+					container: file,
+					bytes: config.input.maxArchiveSizeMb * 1024 * 1024,
+					entries: config.input.maxArchiveEntries,
+				},
+				config,
+			);
+		} catch (error) {
+			failures.push({
+				prefix: path.basename(name, path.extname(name)),
+				source: {
+					kind:
+						containerExtension(file) === EMAIL_EXTENSION ? "email" : "archive",
+					container: file,
+					subject: null,
+					from: null,
+					date: null,
+					entries: [],
+				},
+				error,
+			});
+			continue;
+		}
+		groups.push(
+			...(await prefixGroups(
+				unpacked.documents,
+				{
+					kind: "archive",
+					container: file,
+					subject: null,
+					from: null,
+					date: null,
+				},
+				config,
+			)),
+			...unpacked.groups,
+		);
+	}
+
+	// Output files are named by prefix, so prefixes have to be unique
+	const seen = new Map<string, number>();
+	for (const group of [...groups, ...failures]) {
+		const count = (seen.get(group.prefix) ?? 0) + 1;
+		seen.set(group.prefix, count);
+		if (count > 1) {
+			group.prefix = `${group.prefix}-${count}`;
+		}
+	}
+
+	return { groups, failures };
+}
+
+export function describeSource(source: GroupSource): string | null {
+	switch (source.kind) {
+		case "files":
+			return null;
+		case "archive":
+			return `from archive ${source.container}`;
+		case "email":
+			return `from email "${source.subject ?? "(no subject)"}" (${source.from ?? "unknown sender"})`;
+	}
+}
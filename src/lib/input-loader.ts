@@ -0,0 +1,164 @@
+import * as path from "node:path";
+import sharp from "sharp";
+import type {
+	InputKind,
+	PDFPage,
+	PDFProcessingResult,
+	TwoPassConfig,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { releasePages, storePageImage } from "./page-store.js";
+import { encodePageImage, processPDF, renderScale } from "./pdf-processor.js";
+import {
+	checkInputFile,
+	checkPageCount,
+	InputError,
+	inspectPDF,
+} from "./preflight.js";
+
+const INPUT_KINDS: Record<string, InputKind> = {
+	".pdf": "pdf",
+	".tif": "tiff",
+	".tiff": "tiff",
+	".jpg": "jpeg",
+	".jpeg": "jpeg",
+	".png": "png",
+	".heic": "heic",
+	".heif": "heic",
+};
+
+const INPUT_MIME_TYPES: Record<string, InputKind> = {
+	"application/pdf": "pdf",
+	"image/tiff": "tiff",
+	"image/jpeg": "jpeg",
+	"image/png": "png",
+	"image/heic": "heic",
+	"image/heif": "heic",
+};
+
+// Long side of an A4 page in PDF points; images are capped at the pixel
+// size a PDF page would be rendered at
+const A4_LONG_SIDE_POINTS = 842;
+
+export const SUPPORTED_INPUT_EXTENSIONS = Object.keys(INPUT_KINDS);
+
+export function inputKind(
+	filePath: string,
+	mimeType?: string,
+): InputKind | null {
+	return (
+		INPUT_KINDS[path.extname(filePath).toLowerCase()] ??
+		(mimeType ? INPUT_MIME_TYPES[mimeType] : undefined) ??
+		null
+	);
+}
+
+export function isSupportedInput(filePath: string, mimeType?: string): boolean {
+	return inputKind(filePath, mimeType) !== null;
+}
+
+/**
+ * Turn a raster scan into pages: one per TIFF frame, or a single page for
+ * JPEG/PNG/HEIC. EXIF orientation from phone photos is applied.
+ */
+export async function processImage(
+	filePath: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFProcessingResult> {
+	const absolutePath = path.resolve(filePath);
+	const { rendering } = config;
+
+	let frames: number;
+	try {
+		const metadata = await sharp(absolutePath).metadata();
+		frames = metadata.pages ?? 1;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (inputKind(absolutePath) === "heic") {
+			throw new InputError(
+				"unsupported_format",
+				`Cannot decode HEIC image ${absolutePath}: the bundled libvips usually has no HEVC decoder, convert it to JPEG first (${message})`,
+				absolutePath,
+			);
+		}
+		throw new InputError(
+			"malformed",
+			`Cannot read image ${absolutePath}: ${message}`,
+			absolutePath,
+		);
+	}
+	checkPageCount(frames, absolutePath, config);
+
+	const maxSide = Math.round(A4_LONG_SIDE_POINTS * renderScale(rendering));
+	const pages: PDFPage[] = [];
+
+	try {
+		for (let frame = 0; frame < frames; frame++) {
+			const png = await sharp(absolutePath, { page: frame })
+				.rotate()
+				.resize({
+					width: maxSide,
+					height: maxSide,
+					fit: "inside",
+					withoutEnlargement: true,
+				})
+				.png()
+				.toBuffer();
+			const encoded = await encodePageImage(png, rendering);
+
+			pages.push({
+				pageNumber: frame + 1,
+				imageId: await storePageImage(encoded.data),
+				width: encoded.width,
+				height: encoded.height,
+				mimeType: encoded.mimeType,
+				byteSize: encoded.data.length,
+				corrections: null,
+				origin: "scanned",
+				textItems: [],
+				split: null,
+				barcodes: [],
+				perceptualHash: null,
+			});
+		}
+	} catch (error) {
+		await releasePages(pages);
+		throw error;
+	}
+
+	return {
+		filePath: absolutePath,
+		totalPages: pages.length,
+		pages,
+	};
+}
+
+/**
+ * Load any supported input file (PDF, multipage TIFF, JPEG, PNG, HEIC)
+ * as rendered pages.
+ */
+export async function loadInput(
+	filePath: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFProcessingResult> {
+	const absolutePath = path.resolve(filePath);
+	const kind = inputKind(filePath);
+	if (!kind) {
+		throw new InputError(
+			"unsupported_format",
+			`Unsupported input file: ${absolutePath} (supported: ${SUPPORTED_INPUT_EXTENSIONS.join(", ")})`,
+			absolutePath,
+		);
+	}
+
+	if (kind === "pdf") {
+		const inspection = await inspectPDF(absolutePath, config);
+		for (const warning of inspection.warnings) {
+			console.warn(`  Warning: ${path.basename(absolutePath)}: ${warning}`);
+		}
+		return processPDF(absolutePath, config, inspection.password ?? undefined);
+	}
+
+	await checkInputFile(absolutePath, config);
+	return processImage(absolutePath, config);
+}
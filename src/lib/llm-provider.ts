@@ -0,0 +1,107 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModelV3 } from "@ai-sdk/provider";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import type { LanguageModel } from "ai";
+import { env } from "../env.js";
+import type { TwoPassProviderConfig } from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+
+/**
+ * Fallback response for the fake provider when no canned response is
+ * configured for a model: an empty classification list.
+ */
+const FAKE_DEFAULT_RESPONSE = "[]";
+
+/**
+ * Language model that answers every call with a canned response.
+ * Lets the pipeline run end-to-end without any network access.
+ */
+function createFakeModel(
+	modelId: string,
+	responses: Record<string, string>,
+): LanguageModelV3 {
+	const text = responses[modelId] ?? responses.default ?? FAKE_DEFAULT_RESPONSE;
+
+	return {
+		specificationVersion: "v3",
+		provider: "fake",
+		modelId,
+		supportedUrls: {},
+		async doGenerate() {
+			return {
+				content: [{ type: "text", text }],
+				finishReason: { unified: "stop", raw: "stop" },
+				usage: {
+					inputTokens: {
+						total: 0,
+						noCache: 0,
+						cacheRead: 0,
+						cacheWrite: 0,
+					},
+					outputTokens: { total: 0, text: 0, reasoning: 0 },
+				},
+				warnings: [],
+			};
+		},
+		async doStream() {
+			throw new Error("Streaming is not supported by the fake provider");
+		},
+	};
+}
+
+/**
+ * Resolve a model id to a language model on the configured provider.
+ */
+export function createLanguageModel(
+	modelId: string,
+	provider: TwoPassProviderConfig = DEFAULT_CONFIG.provider,
+): LanguageModel {
+	switch (provider.type) {
+		case "openrouter": {
+			const openrouter = createOpenRouter({
+				apiKey: provider.apiKey ?? env.OPENROUTER_API_KEY,
+			});
+			return openrouter(modelId);
+		}
+		case "openai-compatible": {
+			const compatible = createOpenAICompatible({
+				name: provider.name,
+				baseURL: provider.baseURL,
+				apiKey: provider.apiKey,
+				supportsStructuredOutputs: provider.structuredOutputs,
+			});
+			return compatible(modelId);
+		}
+		case "fake":
+			return createFakeModel(modelId, provider.responses);
+	}
+}
+
+/**
+ * What is missing if the provider needs credentials that are not
+ * configured, otherwise null. Used by the CLIs and the server to fail early
+ * instead of on the first AI call.
+ */
+export function missingProviderCredentials(
+	provider: TwoPassProviderConfig,
+): string | null {
+	switch (provider.type) {
+		case "openrouter":
+			return provider.apiKey || env.OPENROUTER_API_KEY
+				? null
+				: "the openrouter provider needs OPENROUTER_API_KEY or provider.apiKey in the config file";
+		// Local servers such as Ollama take no key, so none is required
+		case "openai-compatible":
+		case "fake":
+			return null;
+	}
+}
+
+/**
+ * Whether JSON-schema structured output should be requested from the provider.
+ */
+export function supportsStructuredOutputs(
+	provider: TwoPassProviderConfig,
+): boolean {
+	return provider.type !== "fake" && provider.structuredOutputs === true;
+}
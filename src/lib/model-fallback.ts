@@ -0,0 +1,73 @@
+import type { AIPass, ModelFallback } from "../types/index.js";
+
+export interface ModelFallbackOutcome<T> {
+	result: T;
+	model: string;
+	fallbacks: ModelFallback[];
+}
+
+/**
+ * Assessment of a successful result: its confidence, and why it should be
+ * rejected in favour of the next model (null when it is good enough).
+ */
+export interface FallbackAssessment {
+	confidence: number;
+	rejectReason: string | null;
+}
+
+/**
+ * Try models in order until one produces an acceptable result.
+ * Errors and rejected results move on to the next model; if no result is
+ * acceptable the most confident one wins, and if every model errors the
+ * last error is thrown.
+ */
+export async function withModelFallback<T>(
+	pass: AIPass,
+	models: string[],
+	run: (model: string) => Promise<T>,
+	assess: (result: T) => FallbackAssessment,
+): Promise<ModelFallbackOutcome<T>> {
+	const fallbacks: ModelFallback[] = [];
+	let best: { result: T; model: string; confidence: number } | undefined;
+	let lastError: unknown;
+
+	for (let i = 0; i < models.length; i++) {
+		const model = models[i];
+		const hasNext = i < models.length - 1;
+		let reason: string;
+
+		try {
+			const result = await run(model);
+			const { confidence, rejectReason } = assess(result);
+
+			if (!best || confidence > best.confidence) {
+				best = { result, model, confidence };
+			}
+			if (!rejectReason) {
+				return { result, model, fallbacks };
+			}
+			reason = rejectReason;
+		} catch (error) {
+			lastError = error;
+			reason = error instanceof Error ? error.message : String(error);
+		}
+
+		if (hasNext) {
+			console.warn(
+				`  ${pass} with ${model} failed (${reason}), falling back to ${models[i + 1]}`,
+			);
+			fallbacks.push({ pass, model, reason });
+		}
+	}
+
+	if (best) {
+		return { result: best.result, model: best.model, fallbacks };
+	}
+
+	throw lastError;
+}
+
+export function averageConfidence(items: { confidence: number }[]): number {
+	if (items.length === 0) return 0;
+	return items.reduce((sum, item) => sum + item.confidence, 0) / items.length;
+}
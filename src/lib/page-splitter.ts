@@ -0,0 +1,279 @@
+import sharp from "sharp";
+import type {
+	PageSplit,
+	PageTextItem,
+	PDFPage,
+	TwoPassConfig,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { readPageImage, releasePages, storePageImage } from "./page-store.js";
+import { encodePageImage } from "./pdf-processor.js";
+
+// Layout analysis runs on a small binarised copy of the page
+const ANALYSIS_WIDTH = 400;
+const INK_THRESHOLD = 160;
+// Scanner shadows and lid edges along the border are not content
+const EDGE_MARGIN = 0.03;
+// Rows/columns with at most this share of dark pixels count as empty,
+// so dust and speckle do not interrupt a gutter
+const MAX_GUTTER_INK = 0.01;
+// Gutters are only looked for in the middle of the page
+const GUTTER_BAND = { from: 0.25, to: 0.75 };
+// Each side's content must span this much of its half; a letterhead
+// above a whitespace gap does not make a second document
+const MIN_CONTENT_EXTENT = 0.4;
+
+type Region = PageSplit["region"];
+
+interface InkProfile {
+	// Dark pixels per column and per row, edge margin excluded
+	columns: Uint32Array;
+	rows: Uint32Array;
+	width: number;
+	height: number;
+}
+
+interface Gutter {
+	axis: "vertical" | "horizontal";
+	// Split position as a fraction of the page
+	position: number;
+}
+
+async function loadInkProfile(image: Buffer): Promise<InkProfile> {
+	const { data, info } = await sharp(image)
+		.resize({ width: ANALYSIS_WIDTH })
+		.toColourspace("b-w")
+		.threshold(INK_THRESHOLD)
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+
+	const { width, height, channels } = info;
+	const columns = new Uint32Array(width);
+	const rows = new Uint32Array(height);
+	const marginX = Math.round(width * EDGE_MARGIN);
+	const marginY = Math.round(height * EDGE_MARGIN);
+
+	for (let y = marginY; y < height - marginY; y++) {
+		for (let x = marginX; x < width - marginX; x++) {
+			if (data[(y * width + x) * channels] === 0) {
+				columns[x]++;
+				rows[y]++;
+			}
+		}
+	}
+
+	return { columns, rows, width, height };
+}
+
+/**
+ * Dark pixels in a section of a profile and the distance from its first
+ * to its last non-empty position.
+ */
+function contentIn(
+	profile: Uint32Array,
+	from: number,
+	to: number,
+	maxInk: number,
+): { ink: number; extent: number } {
+	let ink = 0;
+	let first = -1;
+	let last = -1;
+	for (let i = from; i < to; i++) {
+		if (profile[i] <= maxInk) continue;
+		ink += profile[i];
+		if (first < 0) first = i;
+		last = i;
+	}
+	return { ink, extent: first < 0 ? 0 : last - first + 1 };
+}
+
+/**
+ * Widest empty run in the middle band of a projection profile that has
+ * enough content on both sides to be two documents.
+ */
+function findGutter(
+	profile: Uint32Array,
+	crossLength: number,
+	config: TwoPassConfig,
+): { position: number } | null {
+	const length = profile.length;
+	const maxInk = crossLength * MAX_GUTTER_INK;
+	const from = Math.floor(length * GUTTER_BAND.from);
+	const to = Math.ceil(length * GUTTER_BAND.to);
+
+	let best: { start: number; end: number } | null = null;
+	let start = -1;
+	for (let i = from; i <= to; i++) {
+		const empty = i < to && profile[i] <= maxInk;
+		if (empty && start < 0) start = i;
+		if (!empty && start >= 0) {
+			if (!best || i - start > best.end - best.start) {
+				best = { start, end: i };
+			}
+			start = -1;
+		}
+	}
+	if (!best || best.end - best.start < length * config.pageSplitting.minGap) {
+		return null;
+	}
+
+	const cut = Math.round((best.start + best.end) / 2);
+	const before = contentIn(profile, 0, cut, maxInk);
+	const after = contentIn(profile, cut, length, maxInk);
+	const total = before.ink + after.ink;
+	if (total === 0) {
+		return null;
+	}
+
+	const { minInkShare } = config.pageSplitting;
+	if (before.ink / total < minInkShare || after.ink / total < minInkShare) {
+		return null;
+	}
+	if (
+		before.extent < cut * MIN_CONTENT_EXTENT ||
+		after.extent < (length - cut) * MIN_CONTENT_EXTENT
+	) {
+		return null;
+	}
+
+	return { position: cut / length };
+}
+
+/**
+ * Look for a blank gutter separating two documents on one scan. Two A5
+ * slips on an A4 scan always halve its long side, so landscape pages are
+ * searched for a vertical gutter and portrait pages for a horizontal one;
+ * this also keeps two-column layouts in one piece.
+ */
+async function detectGutter(
+	page: PDFPage,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<Gutter | null> {
+	const profile = await loadInkProfile(await readPageImage(page));
+
+	if (profile.width > profile.height) {
+		const gutter = findGutter(profile.columns, profile.height, config);
+		return gutter && { axis: "vertical", ...gutter };
+	}
+	const gutter = findGutter(profile.rows, profile.width, config);
+	return gutter && { axis: "horizontal", ...gutter };
+}
+
+function splitRegions(gutter: Gutter): Region[] {
+	const { position } = gutter;
+	return gutter.axis === "vertical"
+		? [
+				{ x: 0, y: 0, width: position, height: 1 },
+				{ x: position, y: 0, width: 1 - position, height: 1 },
+			]
+		: [
+				{ x: 0, y: 0, width: 1, height: position },
+				{ x: 0, y: position, width: 1, height: 1 - position },
+			];
+}
+
+/**
+ * Text items whose centre lies in the region, in region coordinates.
+ */
+function textItemsIn(items: PageTextItem[], region: Region): PageTextItem[] {
+	return items
+		.filter((item) => {
+			const cx = item.x + item.width / 2;
+			const cy = item.y + item.height / 2;
+			return (
+				cx >= region.x &&
+				cx < region.x + region.width &&
+				cy >= region.y &&
+				cy < region.y + region.height
+			);
+		})
+		.map((item) => ({
+			text: item.text,
+			x: (item.x - region.x) / region.width,
+			y: (item.y - region.y) / region.height,
+			width: item.width / region.width,
+			height: item.height / region.height,
+		}));
+}
+
+async function cropPage(
+	page: PDFPage,
+	region: Region,
+	part: number,
+	parts: number,
+	config: TwoPassConfig,
+): Promise<PDFPage> {
+	const left = Math.round(region.x * page.width);
+	const top = Math.round(region.y * page.height);
+	const png = await sharp(await readPageImage(page))
+		.extract({
+			left,
+			top,
+			width: Math.round((region.x + region.width) * page.width) - left,
+			height: Math.round((region.y + region.height) * page.height) - top,
+		})
+		.png()
+		.toBuffer();
+	const encoded = await encodePageImage(png, config.rendering);
+
+	return {
+		...page,
+		imageId: await storePageImage(encoded.data),
+		width: encoded.width,
+		height: encoded.height,
+		mimeType: encoded.mimeType,
+		byteSize: encoded.data.length,
+		textItems: textItemsIn(page.textItems, region),
+		split: { originalPageNumber: page.pageNumber, part, parts, region },
+	};
+}
+
+/**
+ * Cut scanned pages that hold several documents into one virtual page per
+ * document. Pages are renumbered in order; each virtual page keeps the
+ * number of the page it was cut from, and the image of the original is
+ * released. Returns the pages unchanged when splitting is disabled.
+ */
+export async function splitPages(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFPage[]> {
+	if (!config.pageSplitting.enabled) {
+		return pages;
+	}
+
+	const result: PDFPage[] = [];
+	for (const page of pages) {
+		const gutter =
+			page.origin === "scanned" ? await detectGutter(page, config) : null;
+		if (!gutter) {
+			result.push(page);
+			continue;
+		}
+
+		const regions = splitRegions(gutter);
+		for (const [i, region] of regions.entries()) {
+			result.push(await cropPage(page, region, i + 1, regions.length, config));
+		}
+		await releasePages([page]);
+	}
+
+	return result.map((page, i) => ({ ...page, pageNumber: i + 1 }));
+}
+
+export function countSplitPages(pages: PDFPage[]): number {
+	return new Set(
+		pages.flatMap((page) =>
+			page.split ? [page.split.originalPageNumber] : [],
+		),
+	).size;
+}
+
+/**
+ * " (part 1/2 of page 3)" for virtual pages, "" otherwise.
+ */
+export function describeSplit(page: PDFPage | undefined): string {
+	if (!page?.split) return "";
+	const { part, parts, originalPageNumber } = page.split;
+	return ` (part ${part}/${parts} of page ${originalPageNumber})`;
+}
@@ -0,0 +1,160 @@
+import { rmSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { PDFPage, TwoPassConfig } from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+
+/**
+ * An encoded page image, held in memory until the store spills it to disk
+ */
+interface StoredImage {
+	data: Buffer | null;
+	// Set once the image has been handed to the disk writer
+	file: string | null;
+	written: Promise<void> | null;
+	size: number;
+}
+
+export interface PageStoreUsage {
+	pages: number;
+	memoryBytes: number;
+	spilledBytes: number;
+	// Highest in-memory total seen since the store was last cleared
+	peakMemoryBytes: number;
+}
+
+// Insertion order doubles as recency order: reads move an image to the end
+const images = new Map<string, StoredImage>();
+let options: TwoPassConfig["memory"] = DEFAULT_CONFIG.memory;
+let memoryBytes = 0;
+let peakMemoryBytes = 0;
+let nextId = 0;
+let spillDir: Promise<string> | null = null;
+
+/**
+ * Set the memory ceiling and spill location. Call once at startup; images
+ * already in the store stay where they are.
+ */
+export function configurePageStore(config: TwoPassConfig = DEFAULT_CONFIG) {
+	options = config.memory;
+}
+
+function spillDirectory(): Promise<string> {
+	spillDir ??= (async () => {
+		const base = options.spillDir ?? os.tmpdir();
+		await fs.mkdir(base, { recursive: true });
+		const dir = await fs.mkdtemp(path.join(base, "pallet-pages-"));
+		// Spilled pages are scratch data; never leave them behind
+		process.once("exit", () => rmSync(dir, { recursive: true, force: true }));
+		return dir;
+	})();
+	return spillDir;
+}
+
+/**
+ * Move the least recently used images to disk until the in-memory total
+ * is under the ceiling.
+ */
+async function enforceCeiling(): Promise<void> {
+	const limit = options.maxPageMemoryMb * 1024 * 1024;
+	const writes: Promise<void>[] = [];
+
+	for (const [id, image] of images) {
+		if (memoryBytes <= limit) break;
+		if (!image.data) continue;
+
+		const data = image.data;
+		image.data = null;
+		memoryBytes -= image.size;
+		image.written = spillDirectory().then(async (dir) => {
+			image.file = path.join(dir, id);
+			await fs.writeFile(image.file, data);
+		});
+		writes.push(image.written);
+	}
+
+	await Promise.all(writes);
+}
+
+/**
+ * Add an encoded page image and return its id for `PDFPage.imageId`.
+ */
+export async function storePageImage(data: Buffer): Promise<string> {
+	const id = `page-${++nextId}`;
+	images.set(id, { data, file: null, written: null, size: data.length });
+	memoryBytes += data.length;
+	peakMemoryBytes = Math.max(peakMemoryBytes, memoryBytes);
+	await enforceCeiling();
+	return id;
+}
+
+export async function readPageImage(page: PDFPage): Promise<Buffer> {
+	const image = images.get(page.imageId);
+	if (!image) {
+		throw new Error(
+			`Image of page ${page.pageNumber} is no longer available (released)`,
+		);
+	}
+
+	if (image.data) {
+		images.delete(page.imageId);
+		images.set(page.imageId, image);
+		return image.data;
+	}
+
+	// Spilled pages are read back for each use rather than cached again
+	await image.written;
+	return fs.readFile(image.file as string);
+}
+
+export async function readPageImageBase64(page: PDFPage): Promise<string> {
+	return (await readPageImage(page)).toString("base64");
+}
+
+/**
+ * Drop the images of pages that are no longer needed. Releasing a page
+ * twice, or a page another step already replaced, is harmless.
+ */
+export async function releasePages(pages: PDFPage[]): Promise<void> {
+	for (const page of pages) {
+		const image = images.get(page.imageId);
+		if (!image) continue;
+		images.delete(page.imageId);
+
+		if (image.data) {
+			memoryBytes -= image.size;
+		} else {
+			await image.written;
+			await fs.rm(image.file as string, { force: true });
+		}
+	}
+}
+
+export function pageStoreUsage(): PageStoreUsage {
+	let spilledBytes = 0;
+	for (const image of images.values()) {
+		if (!image.data) spilledBytes += image.size;
+	}
+	return {
+		pages: images.size,
+		memoryBytes,
+		spilledBytes,
+		peakMemoryBytes,
+	};
+}
+
+/**
+ * Release every image and remove the spill directory.
+ */
+export async function clearPageStore(): Promise<void> {
+	await Promise.all([...images.values()].map((image) => image.written));
+	images.clear();
+	memoryBytes = 0;
+	peakMemoryBytes = 0;
+	if (spillDir) {
+		const dir = await spillDir;
+		spillDir = null;
+		await fs.rm(dir, { recursive: true, force: true });
+	}
+}
@@ -1,45 +1,282 @@
 import * as fs from "node:fs/promises";
+import { createRequire } from "node:module";
 import * as path from "node:path";
-import { pdf } from "pdf-to-img";
-import type { PDFPage, PDFProcessingResult } from "../types/index.js";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type {
+	PDFDocumentProxy,
+	PDFPageProxy,
+	TextItem,
+} from "pdfjs-dist/types/src/display/api.js";
+import sharp from "sharp";
+import type {
+	ImageFormat,
+	PageTextItem,
+	PDFPage,
+	PDFProcessingResult,
+	RenderOptions,
+	TwoPassConfig,
+} from "../types/index.js";
+import type { AIMessageContent } from "./ai-client.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import {
+	readPageImage,
+	readPageImageBase64,
+	releasePages,
+	storePageImage,
+} from "./page-store.js";
 
+// pdf.js renders at 72 DPI for scale 1
+const PDF_BASE_DPI = 72;
+
+// Pages with less text than this are treated as scans (stamps, page numbers)
+const MIN_DIGITAL_TEXT_CHARS = 20;
+
+// Fonts and character maps shipped with pdfjs-dist
+const PDFJS_DIR = path.dirname(
+	createRequire(import.meta.url).resolve("pdfjs-dist/package.json"),
+);
+
+// pdf.js creates @napi-rs/canvas canvases in Node
+interface NodeCanvasFactory {
+	create(
+		width: number,
+		height: number,
+	): { canvas: { toBuffer(mimeType: "image/png"): Buffer } };
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+	png: "image/png",
+	jpeg: "image/jpeg",
+	webp: "image/webp",
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+	"image/png": "png",
+	"image/jpeg": "jpg",
+	"image/webp": "webp",
+};
+
+export function renderScale(rendering: RenderOptions): number {
+	return rendering.dpi ? rendering.dpi / PDF_BASE_DPI : rendering.scale;
+}
+
+/**
+ * Apply colour mode and encoding to a rendered PNG page.
+ * Plain PNG output is passed through untouched.
+ */
+export async function encodePageImage(
+	png: Buffer,
+	rendering: RenderOptions,
+): Promise<{ data: Buffer; width: number; height: number; mimeType: string }> {
+	if (rendering.format === "png" && !rendering.grayscale) {
+		const { width = 0, height = 0 } = await sharp(png).metadata();
+		return { data: png, width, height, mimeType: MIME_TYPES.png };
+	}
+
+	let image = sharp(png);
+	if (rendering.grayscale) {
+		image = image.grayscale();
+	}
+
+	switch (rendering.format) {
+		case "png":
+			image = image.png();
+			break;
+		case "jpeg":
+			image = image.jpeg({ quality: rendering.quality, mozjpeg: true });
+			break;
+		case "webp":
+			image = image.webp({ quality: rendering.quality });
+			break;
+	}
+
+	const { data, info } = await image.toBuffer({ resolveWithObject: true });
+	return {
+		data,
+		width: info.width,
+		height: info.height,
+		mimeType: MIME_TYPES[rendering.format],
+	};
+}
+
+/**
+ * Render a PDF page by page into the page store, with its text layer.
+ * pdf.js keeps fonts and drawing state of every page it has rendered, so
+ * its caches are freed after each `memory.batchPages` pages.
+ */
 export async function processPDF(
 	filePath: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+	password?: string,
 ): Promise<PDFProcessingResult> {
 	const absolutePath = path.resolve(filePath);
 
+	let data: Buffer;
 	try {
-		await fs.access(absolutePath);
+		data = await fs.readFile(absolutePath);
 	} catch {
 		throw new Error(`PDF file not found: ${absolutePath}`);
 	}
 
-	const pages: PDFPage[] = [];
-	let pageNumber = 0;
+	const document = await getDocument({
+		data: new Uint8Array(data),
+		password,
+		isEvalSupported: false,
+		standardFontDataUrl: path.join(PDFJS_DIR, "standard_fonts/"),
+		cMapUrl: path.join(PDFJS_DIR, "cmaps/"),
+		cMapPacked: true,
+	}).promise;
 
-	const document = await pdf(absolutePath, {
-		scale: 2.0,
-	});
+	const pages: PDFPage[] = [];
+	// Each page goes to the page store as soon as it is rendered
+	try {
+		for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+			const page = await document.getPage(pageNumber);
+			const textItems = await readTextItems(page);
+			const encoded = await encodePageImage(
+				await renderPage(document, page, config.rendering),
+				config.rendering,
+			);
 
-	for await (const image of document) {
-		pageNumber++;
-		const base64 = image.toString("base64");
+			pages.push({
+				pageNumber,
+				imageId: await storePageImage(encoded.data),
+				width: encoded.width,
+				height: encoded.height,
+				mimeType: encoded.mimeType,
+				byteSize: encoded.data.length,
+				corrections: null,
+				origin: isDigitalText(textItems) ? "digital" : "scanned",
+				textItems,
+				split: null,
+				barcodes: [],
+				perceptualHash: null,
+			});
 
-		pages.push({
-			pageNumber,
-			imageBase64: base64,
-			width: 0,
-			height: 0,
-		});
+			if (pageNumber % config.memory.batchPages === 0) {
+				await document.cleanup();
+			}
+		}
+	} catch (error) {
+		await releasePages(pages);
+		throw error;
+	} finally {
+		await document.destroy();
 	}
 
 	return {
 		filePath: absolutePath,
-		totalPages: pageNumber,
+		totalPages: pages.length,
 		pages,
 	};
 }
 
+async function renderPage(
+	document: PDFDocumentProxy,
+	page: PDFPageProxy,
+	rendering: RenderOptions,
+): Promise<Buffer> {
+	const viewport = page.getViewport({ scale: renderScale(rendering) });
+	const { canvas } = (document.canvasFactory as NodeCanvasFactory).create(
+		viewport.width,
+		viewport.height,
+	);
+	await page.render({
+		canvas: canvas as unknown as HTMLCanvasElement,
+		viewport,
+	}).promise;
+	return canvas.toBuffer("image/png");
+}
+
+/**
+ * Text runs of a page with positions relative to the page. Pages without
+ * a text layer yield an empty list.
+ */
+async function readTextItems(page: PDFPageProxy): Promise<PageTextItem[]> {
+	const viewport = page.getViewport({ scale: 1 });
+	const { items } = await page.getTextContent();
+
+	return items
+		.filter((item): item is TextItem => "str" in item && !!item.str.trim())
+		.map((item) => {
+			const [x, baseline] = viewport.convertToViewportPoint(
+				item.transform[4],
+				item.transform[5],
+			);
+			return {
+				text: item.str,
+				x: x / viewport.width,
+				y: (baseline - item.height) / viewport.height,
+				width: item.width / viewport.width,
+				height: item.height / viewport.height,
+			};
+		});
+}
+
+function isDigitalText(items: PageTextItem[]): boolean {
+	const characters = items.reduce(
+		(sum, item) => sum + item.text.replace(/\s/g, "").length,
+		0,
+	);
+	return characters >= MIN_DIGITAL_TEXT_CHARS;
+}
+
+/**
+ * Text layer as reading-order lines, each prefixed with its position in
+ * percent of the page ([x,y] from the top-left corner).
+ */
+export function formatPageText(page: PDFPage, maxChars: number): string {
+	const items = [...page.textItems].sort((a, b) => a.y - b.y || a.x - b.x);
+
+	const lines: PageTextItem[][] = [];
+	for (const item of items) {
+		const line = lines[lines.length - 1];
+		// Runs whose tops are within half a line height share a line
+		if (line && Math.abs(line[0].y - item.y) < line[0].height / 2) {
+			line.push(item);
+		} else {
+			lines.push([item]);
+		}
+	}
+
+	const text = lines
+		.map((line) => {
+			line.sort((a, b) => a.x - b.x);
+			const position = `[${Math.round(line[0].x * 100)},${Math.round(line[0].y * 100)}]`;
+			return `${position} ${line.map((item) => item.text.trim()).join("  ")}`;
+		})
+		.join("\n");
+
+	return text.length > maxChars
+		? `${text.slice(0, maxChars)}\n[text layer truncated]`
+		: text;
+}
+
+/**
+ * Message content for a set of pages: each image, followed by its text
+ * layer when the page is digital and the text layer is enabled.
+ */
+export async function buildPageContent(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<AIMessageContent[]> {
+	const content: AIMessageContent[] = [];
+	for (const [i, page] of pages.entries()) {
+		content.push({
+			type: "image",
+			image: await readPageImageBase64(page),
+			mediaType: page.mimeType,
+		});
+		if (config.textLayer.enabled && page.origin === "digital") {
+			content.push({
+				type: "text",
+				text: `Text layer of page ${i + 1} (digital PDF, [x,y] = position in % of the page). Prefer it over the image for numbers and references:\n${formatPageText(page, config.textLayer.maxCharsPerPage)}`,
+			});
+		}
+	}
+	return content;
+}
+
 export function toDataURL(
 	base64: string,
 	mimeType: string = "image/png",
@@ -52,35 +289,22 @@ export async function savePageImage(
 	outputDir: string,
 	baseName: string,
 ): Promise<string> {
-	const filename = `${baseName}_page_${page.pageNumber}.png`;
+	const extension = FILE_EXTENSIONS[page.mimeType] ?? "png";
+	const filename = `${baseName}_page_${page.pageNumber}.${extension}`;
 	const outputPath = path.join(outputDir, filename);
 
 	await fs.mkdir(outputDir, { recursive: true });
-	await fs.writeFile(outputPath, Buffer.from(page.imageBase64, "base64"));
+	await fs.writeFile(outputPath, await readPageImage(page));
 
 	return outputPath;
 }
 
-export async function processDirectory(
-	dirPath: string,
-	pattern: RegExp = /\.pdf$/i,
-): Promise<Map<string, PDFProcessingResult>> {
-	const results = new Map<string, PDFProcessingResult>();
-	const absolutePath = path.resolve(dirPath);
-
-	const entries = await fs.readdir(absolutePath, { withFileTypes: true });
-
-	for (const entry of entries) {
-		if (entry.isFile() && pattern.test(entry.name)) {
-			const filePath = path.join(absolutePath, entry.name);
-			try {
-				const result = await processPDF(filePath);
-				results.set(entry.name, result);
-			} catch (error) {
-				console.error(`Failed to process ${entry.name}:`, error);
-			}
-		}
-	}
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
 
-	return results;
+export function totalPageBytes(pages: PDFPage[]): number {
+	return pages.reduce((sum, page) => sum + page.byteSize, 0);
 }
@@ -0,0 +1,207 @@
+import sharp from "sharp";
+import type {
+	PageClassification,
+	PageTextItem,
+	PDFPage,
+	TwoPassConfig,
+	TwoPassDocumentType,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { readPageImage } from "./page-store.js";
+import { normalizeKeyReference } from "./reference-grouper.js";
+
+// Downscaling first keeps scanner noise from looking like content
+const BLANK_ANALYSIS_WIDTH = 200;
+// Title keywords only count in the upper part of the page
+const HEADING_AREA = 0.3;
+
+// Any of these means the page may carry pallet information
+const PALLET_TERMS =
+	/palette|lademittel|\bepal\b|\beur\b|\bdpl\b|gitterbox|leergut|tausch/i;
+
+// A reference label followed by the number it introduces, e.g.
+// "Lieferschein-Nr.: 0081234" or "Auftrag 4711-22"
+const REFERENCE_PATTERN =
+	/\b(?:lieferschein|auftrags?|bestell|sendungs?|referenz|beleg|ladeliste|palettenschein|order|delivery)(?:[-\s]*(?:nr|nummer|no)\b)?\.?\s*[:#]?\s*[A-Z0-9][\w/.-]*\d[\w/.-]*/gi;
+
+interface KeywordRule {
+	documentType: TwoPassDocumentType;
+	keyword: string;
+	pattern: RegExp;
+	// Irrelevant rules only fire on pages without pallet terms
+	isRelevant: boolean;
+	// Match the heading area only, not the whole page
+	headingOnly: boolean;
+}
+
+const KEYWORD_RULES: KeywordRule[] = [
+	{
+		documentType: "palettenschein",
+		keyword: "Palettenschein",
+		pattern: /palettenschein/i,
+		isRelevant: true,
+		headingOnly: true,
+	},
+	{
+		documentType: "ladeliste",
+		keyword: "Ladeliste",
+		pattern: /ladeliste/i,
+		isRelevant: true,
+		headingOnly: true,
+	},
+	{
+		documentType: "wareneingangsbestaetigung",
+		keyword: "Wareneingangsbestätigung",
+		pattern: /wareneingangsbest(ä|ae)tigung/i,
+		isRelevant: true,
+		headingOnly: true,
+	},
+	{
+		documentType: "wareneingangsbeleg",
+		keyword: "Wareneingang",
+		pattern: /wareneingang(?!sbest)/i,
+		isRelevant: true,
+		headingOnly: true,
+	},
+	{
+		documentType: "invoice",
+		keyword: "Rechnung",
+		pattern: /\brechnung\b/i,
+		isRelevant: false,
+		headingOnly: true,
+	},
+	{
+		documentType: "lieferschein_product_only",
+		keyword: "Lieferschein",
+		pattern: /lieferschein/i,
+		isRelevant: false,
+		headingOnly: false,
+	},
+];
+
+function pageText(items: PageTextItem[]): string {
+	return items.map((item) => item.text).join(" ");
+}
+
+/**
+ * Key references found in the text layer, in the form the classifier
+ * reports them. Rule-classified pages need them to be grouped and
+ * segmented like pages the model has seen.
+ */
+export function textReferences(items: PageTextItem[]): string[] {
+	const found = pageText(items).match(REFERENCE_PATTERN) ?? [];
+	return [
+		...new Set(
+			found
+				.map((reference) => reference.replace(/[.-]+$/, ""))
+				.filter((reference) => normalizeKeyReference(reference) !== null),
+		),
+	];
+}
+
+async function isBlankPage(
+	page: PDFPage,
+	config: TwoPassConfig,
+): Promise<boolean> {
+	if (page.textItems.length > 0) {
+		return false;
+	}
+
+	const { channels } = await sharp(await readPageImage(page))
+		.resize({ width: BLANK_ANALYSIS_WIDTH })
+		.grayscale()
+		.stats();
+	return channels[0].stdev < config.preClassification.blankMaxStdDev;
+}
+
+function matchKeywords(page: PDFPage): KeywordRule | null {
+	const fullText = pageText(page.textItems);
+	const headingText = pageText(
+		page.textItems.filter((item) => item.y < HEADING_AREA),
+	);
+	const hasPalletTerms = PALLET_TERMS.test(fullText);
+
+	const matches = KEYWORD_RULES.filter((rule) => {
+		if (!rule.isRelevant && hasPalletTerms) return false;
+		return rule.pattern.test(rule.headingOnly ? headingText : fullText);
+	});
+
+	// A Lieferschein heading loses to a more specific title on the same page
+	const specific = matches.filter(
+		(rule) => rule.documentType !== "lieferschein_product_only",
+	);
+	const candidates = specific.length > 0 ? specific : matches;
+
+	// Conflicting titles are left to the model
+	return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Classify a page locally when the evidence is unambiguous: blank scans by
+ * pixel statistics, digital pages by title keywords in the text layer.
+ * Returns null for pages the model has to look at.
+ */
+export async function preClassifyPage(
+	page: PDFPage,
+	pageNumber: number,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PageClassification | null> {
+	const base = {
+		pageNumber,
+		keyReferences: [] as string[],
+		palletInfoFound: null,
+		source: "rules" as const,
+	};
+
+	if (await isBlankPage(page, config)) {
+		return {
+			...base,
+			isRelevant: false,
+			documentType: "blank",
+			confidence: 0.95,
+			reason: "No text layer and no visible content",
+		};
+	}
+
+	if (page.origin !== "digital") {
+		return null;
+	}
+
+	const rule = matchKeywords(page);
+	if (!rule) {
+		return null;
+	}
+
+	return {
+		...base,
+		keyReferences: textReferences(page.textItems),
+		isRelevant: rule.isRelevant,
+		documentType: rule.documentType,
+		confidence: 0.9,
+		reason: rule.isRelevant
+			? `Title "${rule.keyword}" in text layer`
+			: `"${rule.keyword}" in text layer without pallet terms`,
+	};
+}
+
+/**
+ * Run the rules over all pages. Page numbers are 1-based positions in
+ * `pages`, matching the numbering of the classification pass.
+ */
+export async function preClassifyPages(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<Map<number, PageClassification>> {
+	const classified = new Map<number, PageClassification>();
+	if (!config.preClassification.enabled) {
+		return classified;
+	}
+
+	for (let i = 0; i < pages.length; i++) {
+		const classification = await preClassifyPage(pages[i], i + 1, config);
+		if (classification) {
+			classified.set(i + 1, classification);
+		}
+	}
+	return classified;
+}
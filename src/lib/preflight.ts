@@ -0,0 +1,226 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type {
+	InputErrorCode,
+	ProcessingError,
+	TwoPassConfig,
+} from "../types/index.js";
+import { StructuredGenerationError } from "./ai-client.js";
+import { DEFAULT_CONFIG } from "./config.js";
+
+// pdf.js PasswordException codes
+const NEED_PASSWORD = 1;
+const INCORRECT_PASSWORD = 2;
+
+// The header may be preceded by junk, the trailer followed by some
+const HEADER_WINDOW = 1024;
+const TRAILER_WINDOW = 2048;
+
+/**
+ * An input file that cannot be processed, with a code callers can act on.
+ */
+export class InputError extends Error {
+	constructor(
+		readonly code: InputErrorCode,
+		message: string,
+		readonly file: string,
+	) {
+		super(message);
+		this.name = "InputError";
+	}
+}
+
+export interface PDFInspection {
+	pageCount: number;
+	// Password that opened the file; null when it is not encrypted
+	password: string | null;
+	warnings: string[];
+}
+
+/**
+ * Size and existence checks shared by all input formats.
+ */
+export async function checkInputFile(
+	filePath: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<Buffer> {
+	const absolutePath = path.resolve(filePath);
+
+	let size: number;
+	try {
+		size = (await fs.stat(absolutePath)).size;
+	} catch {
+		throw new InputError(
+			"file_not_found",
+			`File not found: ${absolutePath}`,
+			absolutePath,
+		);
+	}
+
+	if (size === 0) {
+		throw new InputError(
+			"empty_document",
+			`File is empty (0 bytes): ${absolutePath}`,
+			absolutePath,
+		);
+	}
+
+	const maxBytes = config.input.maxFileSizeMb * 1024 * 1024;
+	if (size > maxBytes) {
+		throw new InputError(
+			"file_too_large",
+			`File is ${(size / (1024 * 1024)).toFixed(2)} MB, limit is ${config.input.maxFileSizeMb} MB: ${absolutePath}`,
+			absolutePath,
+		);
+	}
+
+	return fs.readFile(absolutePath);
+}
+
+export function checkPageCount(
+	pageCount: number,
+	filePath: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): void {
+	const absolutePath = path.resolve(filePath);
+	if (pageCount === 0) {
+		throw new InputError(
+			"empty_document",
+			`Document has no pages: ${absolutePath}`,
+			absolutePath,
+		);
+	}
+	if (pageCount > config.input.maxPages) {
+		throw new InputError(
+			"too_many_pages",
+			`Document has ${pageCount} pages, limit is ${config.input.maxPages}: ${absolutePath}`,
+			absolutePath,
+		);
+	}
+}
+
+async function openWithPassword(
+	data: Buffer,
+	password: string | undefined,
+): Promise<number> {
+	const document = await getDocument({
+		data: new Uint8Array(data),
+		password,
+		isEvalSupported: false,
+		verbosity: 0,
+	}).promise;
+	try {
+		return document.numPages;
+	} finally {
+		await document.destroy();
+	}
+}
+
+function passwordCode(error: unknown): number | null {
+	if (
+		error instanceof Error &&
+		error.name === "PasswordException" &&
+		"code" in error
+	) {
+		return error.code as number;
+	}
+	return null;
+}
+
+// pdf.js could not open the file: truncated if the trailer is missing,
+// otherwise malformed
+function brokenPdfError(
+	error: unknown,
+	complete: boolean,
+	absolutePath: string,
+): InputError {
+	return new InputError(
+		complete ? "malformed" : "truncated",
+		complete
+			? `PDF structure is broken: ${absolutePath} (${error instanceof Error ? error.message : String(error)})`
+			: `PDF is truncated (no %%EOF trailer): ${absolutePath}`,
+		absolutePath,
+	);
+}
+
+/**
+ * Check a PDF before rendering: readable structure, complete file, page
+ * limits, and (for encrypted files) which configured password opens it.
+ */
+export async function inspectPDF(
+	filePath: string,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFInspection> {
+	const absolutePath = path.resolve(filePath);
+	const data = await checkInputFile(absolutePath, config);
+	const warnings: string[] = [];
+
+	if (!data.subarray(0, HEADER_WINDOW).includes("%PDF-")) {
+		throw new InputError(
+			"malformed",
+			`Not a PDF file (no %PDF header): ${absolutePath}`,
+			absolutePath,
+		);
+	}
+	const complete = data.subarray(-TRAILER_WINDOW).includes("%%EOF");
+
+	let pageCount: number | null = null;
+	let password: string | null = null;
+	try {
+		pageCount = await openWithPassword(data, undefined);
+	} catch (error) {
+		if (passwordCode(error) !== NEED_PASSWORD) {
+			throw brokenPdfError(error, complete, absolutePath);
+		}
+
+		for (const candidate of config.input.passwords) {
+			try {
+				pageCount = await openWithPassword(data, candidate);
+				password = candidate;
+				break;
+			} catch (attempt) {
+				// The password was right, the document behind it is not
+				if (passwordCode(attempt) !== INCORRECT_PASSWORD) {
+					throw brokenPdfError(attempt, complete, absolutePath);
+				}
+			}
+		}
+
+		if (pageCount === null) {
+			throw new InputError(
+				"encrypted",
+				config.input.passwords.length > 0
+					? `PDF is password-protected and none of the ${config.input.passwords.length} configured password(s) opened it: ${absolutePath}`
+					: `PDF is password-protected and no passwords are configured: ${absolutePath}`,
+				absolutePath,
+			);
+		}
+	}
+
+	if (!complete) {
+		warnings.push("PDF has no %%EOF trailer, it may be incomplete");
+	}
+
+	checkPageCount(pageCount, absolutePath, config);
+
+	return { pageCount, password, warnings };
+}
+
+/**
+ * Reduce any error to a code and message suitable for results and API
+ * responses.
+ */
+export function toProcessingError(error: unknown): ProcessingError {
+	if (error instanceof InputError) {
+		return { code: error.code, message: error.message, file: error.file };
+	}
+	if (error instanceof StructuredGenerationError) {
+		return { code: "model_error", message: error.message, file: null };
+	}
+	return {
+		code: "internal_error",
+		message: error instanceof Error ? error.message : String(error),
+		file: null,
+	};
+}
@@ -0,0 +1,295 @@
+import sharp from "sharp";
+import type {
+	PageCorrections,
+	PDFPage,
+	TwoPassConfig,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { readPageImage, releasePages, storePageImage } from "./page-store.js";
+import { encodePageImage } from "./pdf-processor.js";
+
+// Analysis runs on a downscaled, binarised copy of the page
+const ANALYSIS_WIDTH = 1000;
+const MAX_INK_POINTS = 150_000;
+const SKEW_STEP_DEGREES = 0.2;
+// Skew below this is not worth resampling the page for
+const MIN_DESKEW_DEGREES = 0.3;
+// Text lines must score this much better sideways before we rotate 90°
+const ORIENTATION_MARGIN = 1.3;
+// Line ends must be this much more aligned than starts to flip 180°
+const FLIP_MARGIN = 1.5;
+// Pages whose luminance range is narrower than this get stretched
+const MIN_CONTRAST_RANGE = 190;
+const TRIM_THRESHOLD = 40;
+const WHITE = { r: 255, g: 255, b: 255, alpha: 1 };
+
+interface InkPoints {
+	// Interleaved x, y coordinates of dark pixels
+	coords: Int32Array;
+	width: number;
+	height: number;
+}
+
+async function loadInkPoints(image: Buffer): Promise<InkPoints> {
+	const { data, info } = await sharp(image)
+		.resize({ width: ANALYSIS_WIDTH, withoutEnlargement: true })
+		.toColourspace("b-w")
+		.threshold(128)
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+
+	let dark = 0;
+	for (let i = 0; i < data.length; i += info.channels) {
+		if (data[i] === 0) dark++;
+	}
+	const stride = Math.max(1, Math.ceil(dark / MAX_INK_POINTS));
+
+	const coords: number[] = [];
+	let seen = 0;
+	for (let y = 0; y < info.height; y++) {
+		for (let x = 0; x < info.width; x++) {
+			if (data[(y * info.width + x) * info.channels] === 0) {
+				if (seen++ % stride === 0) coords.push(x, y);
+			}
+		}
+	}
+
+	return {
+		coords: Int32Array.from(coords),
+		width: info.width,
+		height: info.height,
+	};
+}
+
+/**
+ * Sharpness of the horizontal projection profile when the points are
+ * rotated by the given angle. Straight text lines give tall, narrow peaks.
+ */
+function profileScore(points: InkPoints, degrees: number): number {
+	const radians = (degrees * Math.PI) / 180;
+	const sin = Math.sin(radians);
+	const cos = Math.cos(radians);
+	const offset = points.width + points.height;
+	const bins = new Float64Array(offset * 2 + 1);
+
+	for (let i = 0; i < points.coords.length; i += 2) {
+		const x = points.coords[i];
+		const y = points.coords[i + 1];
+		bins[Math.round(x * sin + y * cos) + offset]++;
+	}
+
+	let score = 0;
+	for (const count of bins) score += count * count;
+	return score;
+}
+
+function bestSkew(
+	points: InkPoints,
+	maxDegrees: number,
+): { degrees: number; score: number } {
+	let best = { degrees: 0, score: profileScore(points, 0) };
+	for (
+		let degrees = -maxDegrees;
+		degrees <= maxDegrees;
+		degrees += SKEW_STEP_DEGREES
+	) {
+		const score = profileScore(points, degrees);
+		if (score > best.score) best = { degrees, score };
+	}
+	return best;
+}
+
+function transpose(points: InkPoints): InkPoints {
+	const coords = new Int32Array(points.coords.length);
+	for (let i = 0; i < coords.length; i += 2) {
+		coords[i] = points.coords[i + 1];
+		coords[i + 1] = points.coords[i];
+	}
+	return { coords, width: points.height, height: points.width };
+}
+
+/**
+ * Left-aligned text has ragged line ends but straight line starts; if the
+ * ends are clearly straighter the page is most likely upside down.
+ */
+function looksUpsideDown(points: InkPoints): boolean {
+	const starts = new Map<number, number>();
+	const ends = new Map<number, number>();
+	for (let i = 0; i < points.coords.length; i += 2) {
+		const x = points.coords[i];
+		const row = Math.floor(points.coords[i + 1] / 4);
+		starts.set(row, Math.min(starts.get(row) ?? x, x));
+		ends.set(row, Math.max(ends.get(row) ?? x, x));
+	}
+
+	const spread = (values: number[]): number => {
+		if (values.length < 2) return 0;
+		const mean = values.reduce((a, b) => a + b, 0) / values.length;
+		return Math.sqrt(
+			values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length,
+		);
+	};
+
+	const startSpread = spread([...starts.values()]);
+	const endSpread = spread([...ends.values()]);
+	return startSpread > endSpread * FLIP_MARGIN;
+}
+
+function rotateClockwise(points: InkPoints, degrees: number): InkPoints {
+	if (degrees === 0) return points;
+	const coords = new Int32Array(points.coords.length);
+	for (let i = 0; i < coords.length; i += 2) {
+		const x = points.coords[i];
+		const y = points.coords[i + 1];
+		if (degrees === 90) {
+			coords[i] = points.height - 1 - y;
+			coords[i + 1] = x;
+		} else if (degrees === 180) {
+			coords[i] = points.width - 1 - x;
+			coords[i + 1] = points.height - 1 - y;
+		} else {
+			coords[i] = y;
+			coords[i + 1] = points.width - 1 - x;
+		}
+	}
+	const swap = degrees === 90 || degrees === 270;
+	return {
+		coords,
+		width: swap ? points.height : points.width,
+		height: swap ? points.width : points.height,
+	};
+}
+
+/**
+ * Clockwise rotation (0/90/180/270) that makes text lines horizontal and
+ * upright. Sideways detection is robust; upside-down detection relies on
+ * left-aligned text and is deliberately conservative.
+ */
+function detectRotation(points: InkPoints, maxSkewDegrees: number): number {
+	if (points.coords.length === 0) return 0;
+
+	const horizontal = bestSkew(points, maxSkewDegrees).score;
+	const vertical = bestSkew(transpose(points), maxSkewDegrees).score;
+	const candidate = vertical > horizontal * ORIENTATION_MARGIN ? 90 : 0;
+
+	return looksUpsideDown(rotateClockwise(points, candidate))
+		? (candidate + 180) % 360
+		: candidate;
+}
+
+export async function preprocessPage(
+	page: PDFPage,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFPage> {
+	const options = config.preprocessing;
+	let image: Buffer = await readPageImage(page);
+	const corrections: PageCorrections = {
+		rotation: 0,
+		deskewAngle: 0,
+		contrastNormalized: false,
+		crop: null,
+	};
+
+	if (options.autoRotate) {
+		const points = await loadInkPoints(image);
+		corrections.rotation = detectRotation(points, options.maxSkewDegrees);
+		if (corrections.rotation !== 0) {
+			image = await sharp(image).rotate(corrections.rotation).png().toBuffer();
+		}
+	}
+
+	if (options.deskew) {
+		const points = await loadInkPoints(image);
+		const { degrees } = bestSkew(points, options.maxSkewDegrees);
+		if (Math.abs(degrees) >= MIN_DESKEW_DEGREES) {
+			corrections.deskewAngle = Number(degrees.toFixed(1));
+			image = await sharp(image)
+				.rotate(degrees, { background: WHITE })
+				.png()
+				.toBuffer();
+		}
+	}
+
+	if (options.normalizeContrast) {
+		const { channels } = await sharp(image).stats();
+		const min = Math.min(...channels.map((c) => c.min));
+		const max = Math.max(...channels.map((c) => c.max));
+		if (max - min < MIN_CONTRAST_RANGE) {
+			image = await sharp(image).normalise().png().toBuffer();
+			corrections.contrastNormalized = true;
+		}
+	}
+
+	if (options.trimBorders) {
+		const { data, info } = await sharp(image)
+			.trim({ threshold: TRIM_THRESHOLD })
+			.png()
+			.toBuffer({ resolveWithObject: true });
+		const { width = 0, height = 0 } = await sharp(image).metadata();
+		if (info.width < width || info.height < height) {
+			corrections.crop = {
+				left: -(info.trimOffsetLeft ?? 0),
+				top: -(info.trimOffsetTop ?? 0),
+				width: info.width,
+				height: info.height,
+			};
+			image = data;
+		}
+	}
+
+	const encoded = await encodePageImage(image, config.rendering);
+	return {
+		...page,
+		imageId: await storePageImage(encoded.data),
+		width: encoded.width,
+		height: encoded.height,
+		mimeType: encoded.mimeType,
+		byteSize: encoded.data.length,
+		corrections,
+	};
+}
+
+/**
+ * Straighten, rotate, normalise and trim scanned pages before
+ * classification. The images of the input pages are released as their
+ * corrected versions are stored. Returns the pages unchanged when
+ * preprocessing is disabled.
+ */
+export async function preprocessPages(
+	pages: PDFPage[],
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PDFPage[]> {
+	if (!config.preprocessing.enabled) {
+		return pages;
+	}
+
+	const processed: PDFPage[] = [];
+	for (const page of pages) {
+		// Digital pages are straight already; trimming their margins would
+		// also shift the image away from the text layer coordinates
+		if (page.origin === "digital") {
+			processed.push(page);
+			continue;
+		}
+		processed.push(await preprocessPage(page, config));
+		await releasePages([page]);
+	}
+	return processed;
+}
+
+export function describeCorrections(corrections: PageCorrections): string[] {
+	const applied: string[] = [];
+	if (corrections.rotation) applied.push(`rotated ${corrections.rotation}°`);
+	if (corrections.deskewAngle) {
+		applied.push(`deskewed ${corrections.deskewAngle}°`);
+	}
+	if (corrections.contrastNormalized) applied.push("contrast normalised");
+	if (corrections.crop) applied.push("borders trimmed");
+	return applied;
+}
+
+export function countCorrectedPages(pages: PDFPage[]): number {
+	return pages.filter(
+		(page) => page.corrections && describeCorrections(page.corrections).length,
+	).length;
+}
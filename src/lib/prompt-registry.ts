@@ -0,0 +1,154 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { decodePrompt, env } from "../env.js";
+import type {
+	PromptName,
+	PromptTemplate,
+	TwoPassConfig,
+} from "../types/index.js";
+import { sha256 } from "./cassette.js";
+import { DEFAULT_CONFIG } from "./config.js";
+
+const PROMPT_NAMES: PromptName[] = ["classification", "extraction"];
+
+// Variables filled in by the pipeline; config.prompts.variables adds more
+const BUILTIN_VARIABLES: Record<PromptName, string[]> = {
+	classification: ["PAGE_COUNT"],
+	extraction: ["DOCUMENT_CONTEXT", "DOCUMENT_TYPES", "PAGE_COUNT"],
+};
+
+// Base64 prompts from env take precedence over the registry (deprecated)
+const LEGACY_ENV_PROMPTS: Record<
+	PromptName,
+	{ name: string; value: string | undefined }
+> = {
+	classification: {
+		name: "CLASSIFICATION_PROMPT_BASE64",
+		value: env.CLASSIFICATION_PROMPT_BASE64,
+	},
+	extraction: {
+		name: "EXTRACTION_PROMPT_BASE64",
+		value: env.EXTRACTION_PROMPT_BASE64,
+	},
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Z0-9_]+)\s*\}\}/g;
+
+function templateVariables(template: string): string[] {
+	return [
+		...new Set([...template.matchAll(VARIABLE_PATTERN)].map((m) => m[1])),
+	];
+}
+
+function buildTemplate(
+	name: PromptName,
+	version: string,
+	source: string,
+	template: string,
+	config: TwoPassConfig,
+): PromptTemplate {
+	const label = `${name}@${version}`;
+
+	if (!template.trim()) {
+		throw new Error(`Prompt ${label} (${source}) is empty`);
+	}
+
+	const known = new Set([
+		...BUILTIN_VARIABLES[name],
+		...Object.keys(config.prompts.variables),
+	]);
+	const unknown = templateVariables(template).filter((v) => !known.has(v));
+	if (unknown.length > 0) {
+		throw new Error(
+			`Prompt ${label} (${source}) uses unknown variable(s): ${unknown.map((v) => `{{${v}}}`).join(", ")}`,
+		);
+	}
+
+	return {
+		name,
+		version,
+		id: `${label}#${sha256(template).slice(0, 12)}`,
+		source,
+		template,
+	};
+}
+
+export function promptPath(
+	name: PromptName,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): string {
+	return path.join(config.prompts.dir, name, `${config.prompts[name]}.md`);
+}
+
+/**
+ * Load one prompt from the registry. Missing, empty or malformed prompts
+ * throw instead of silently producing an empty prompt.
+ */
+export async function loadPrompt(
+	name: PromptName,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<PromptTemplate> {
+	const legacy = LEGACY_ENV_PROMPTS[name];
+	const legacyPrompt = decodePrompt(legacy.value);
+	if (legacyPrompt) {
+		return buildTemplate(name, "env", legacy.name, legacyPrompt, config);
+	}
+
+	const filePath = promptPath(name, config);
+	let template: string;
+	try {
+		template = await fs.readFile(filePath, "utf-8");
+	} catch {
+		throw new Error(
+			`Prompt ${name}@${config.prompts[name]} not found at ${filePath}`,
+		);
+	}
+
+	return buildTemplate(name, config.prompts[name], filePath, template, config);
+}
+
+/**
+ * Load every prompt up front so a misconfigured registry fails at startup
+ * rather than halfway through a batch.
+ */
+export async function loadPrompts(
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): Promise<Record<PromptName, PromptTemplate>> {
+	const errors: string[] = [];
+	const prompts: Partial<Record<PromptName, PromptTemplate>> = {};
+
+	for (const name of PROMPT_NAMES) {
+		try {
+			prompts[name] = await loadPrompt(name, config);
+		} catch (error) {
+			errors.push(error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	if (errors.length > 0) {
+		throw new Error(
+			`Prompt registry ${config.prompts.dir} is incomplete:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+		);
+	}
+
+	return prompts as Record<PromptName, PromptTemplate>;
+}
+
+export function renderPrompt(
+	prompt: PromptTemplate,
+	variables: Record<string, string>,
+	config: TwoPassConfig = DEFAULT_CONFIG,
+): string {
+	const values: Record<string, string> = {
+		...config.prompts.variables,
+		...variables,
+	};
+
+	return prompt.template.replace(VARIABLE_PATTERN, (_match, name: string) => {
+		const value = values[name];
+		if (value === undefined) {
+			throw new Error(`No value for {{${name}}} in prompt ${prompt.id}`);
+		}
+		return value;
+	});
+}
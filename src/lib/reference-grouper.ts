@@ -0,0 +1,228 @@
+import * as path from "node:path";
+import type {
+	ClassificationPassResult,
+	GroupingJoin,
+	PageClassification,
+	PDFPage,
+	ReferenceGroup,
+} from "../types/index.js";
+import { addTokenUsage, emptyTokenUsage } from "./usage.js";
+
+// Shorter numbers (tour 7, 3 pallets) join unrelated deliveries
+const MIN_REFERENCE_DIGITS = 4;
+// 12.03.2024, 12/03/24, 2024-03-12: every delivery of a day shares them
+const DATE_TOKEN =
+	/^(?:\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{4}-\d{1,2}-\d{1,2})$/;
+
+/**
+ * A relevant page with the classification it got in its own file
+ */
+export interface ClassifiedPage {
+	file: string;
+	page: PDFPage;
+	classification: PageClassification;
+}
+
+/**
+ * Comparable form of a key reference as the classifier reports it, e.g.
+ * "Lieferschein-Nr. 0081234" → "81234". The longest token with enough
+ * digits is taken; labels, separators and dates are dropped. Returns null
+ * when there is no such token.
+ */
+export function normalizeKeyReference(reference: string): string | null {
+	const tokens = reference
+		.toUpperCase()
+		.split(/[\s:#,;]+/)
+		.filter((token) => !DATE_TOKEN.test(token.replace(/\.+$/, "")))
+		.map((token) => token.replace(/[^A-Z0-9]/g, "").replace(/^0+(?=.)/, ""))
+		.filter((token) => token.replace(/\D/g, "").length >= MIN_REFERENCE_DIGITS);
+	if (tokens.length === 0) {
+		return null;
+	}
+	return tokens.reduce((a, b) => (b.length > a.length ? b : a));
+}
+
+/**
+ * Distinct normalised key references of a classified page.
+ */
+export function classificationReferences(
+	classification: PageClassification,
+): string[] {
+	return [
+		...new Set(
+			classification.keyReferences.flatMap((reference) => {
+				const normalized = normalizeKeyReference(reference);
+				return normalized ? [normalized] : [];
+			}),
+		),
+	];
+}
+
+function groupPrefix(pages: ClassifiedPage[], references: string[]): string {
+	const name = references[0]
+		? `ref-${references[0]}`
+		: path.basename(pages[0].file, path.extname(pages[0].file));
+	return name.replace(/[^\w.-]+/g, "_");
+}
+
+/**
+ * Cluster relevant pages from any number of files into deliveries. Pages
+ * sharing a normalised key reference are joined, transitively; a page
+ * without references stays with the page before it in the same file.
+ * Every page records why it joined its group.
+ *
+ * `pages` must be in file order, and in page order within each file.
+ */
+export function groupPagesByReferences(
+	pages: ClassifiedPage[],
+): Array<{ group: ReferenceGroup; pages: ClassifiedPage[] }> {
+	// Union-find over page indices
+	const parent = pages.map((_, i) => i);
+	const find = (i: number): number => {
+		while (parent[i] !== i) {
+			parent[i] = parent[parent[i]];
+			i = parent[i];
+		}
+		return i;
+	};
+	const union = (a: number, b: number) => {
+		const rootA = find(a);
+		const rootB = find(b);
+		// The earlier page stays the root, so groups keep input order
+		if (rootA !== rootB) {
+			parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+		}
+	};
+
+	const at = (i: number) => ({
+		file: pages[i].file,
+		pageNumber: pages[i].page.pageNumber,
+	});
+	const firstWithReference = new Map<string, number>();
+	const joins: GroupingJoin[] = [];
+	const references = pages.map((page) =>
+		classificationReferences(page.classification),
+	);
+
+	for (const [i, page] of pages.entries()) {
+		const join: GroupingJoin = {
+			...at(i),
+			reason: "first",
+			reference: null,
+			joinedTo: null,
+		};
+
+		for (const reference of references[i]) {
+			const earlier = firstWithReference.get(reference);
+			if (earlier === undefined) {
+				firstWithReference.set(reference, i);
+				continue;
+			}
+			// The first shared reference explains the join; others may
+			// merge further groups into this one
+			if (join.reason === "first") {
+				join.reason = "reference";
+				join.reference = reference;
+				join.joinedTo = at(earlier);
+			}
+			union(earlier, i);
+		}
+
+		const previous = pages[i - 1];
+		if (
+			references[i].length === 0 &&
+			previous !== undefined &&
+			previous.file === page.file
+		) {
+			union(i - 1, i);
+			join.reason = "continuation";
+			join.joinedTo = at(i - 1);
+		}
+
+		joins.push(join);
+	}
+
+	const clusters = new Map<number, number[]>();
+	for (let i = 0; i < pages.length; i++) {
+		const root = find(i);
+		clusters.set(root, [...(clusters.get(root) ?? []), i]);
+	}
+
+	const seenPrefixes = new Map<string, number>();
+	return [...clusters.values()].map((indices) => {
+		const members = indices.map((i) => pages[i]);
+		const groupReferences = [...new Set(indices.flatMap((i) => references[i]))];
+		let prefix = groupPrefix(members, groupReferences);
+		const count = (seenPrefixes.get(prefix) ?? 0) + 1;
+		seenPrefixes.set(prefix, count);
+		if (count > 1) {
+			prefix = `${prefix}-${count}`;
+		}
+
+		return {
+			group: {
+				prefix,
+				files: [...new Set(members.map((member) => member.file))],
+				references: groupReferences,
+				pages: indices.map((i) => joins[i]),
+			},
+			pages: members,
+		};
+	});
+}
+
+/**
+ * One line per page explaining how it was joined.
+ */
+export function describeGroupingJoins(group: ReferenceGroup): string[] {
+	return group.pages.map((join) => {
+		const page = `${path.basename(join.file)} p.${join.pageNumber}`;
+		const target = join.joinedTo
+			? `${path.basename(join.joinedTo.file)} p.${join.joinedTo.pageNumber}`
+			: "";
+		if (join.reason === "reference") {
+			return `${page}: shares reference ${join.reference} with ${target}`;
+		}
+		if (join.reason === "continuation") {
+			return `${page}: no references, follows ${target}`;
+		}
+		return `${page}: starts the group`;
+	});
+}
+
+/**
+ * Classification result for a reference group, as if its pages had been
+ * classified together: pages are renumbered in group order. Usage, call
+ * attempts and fallbacks come from `fileResults`, the per-file passes
+ * whose cost the group carries.
+ */
+export function groupClassification(
+	pages: ClassifiedPage[],
+	fileResults: ClassificationPassResult[],
+	model: string,
+	promptVersion: string,
+): ClassificationPassResult {
+	const classifications = pages.map((page, i) => ({
+		...page.classification,
+		pageNumber: i + 1,
+	}));
+	return {
+		pages: classifications,
+		relevantPageNumbers: classifications.map((page) => page.pageNumber),
+		documentTypesFound: [
+			...new Set(classifications.map((page) => page.documentType)),
+		],
+		totalPages: classifications.length,
+		relevantPages: classifications.length,
+		repairAttempts: fileResults.flatMap((result) => result.repairAttempts),
+		callAttempts: fileResults.flatMap((result) => result.callAttempts),
+		usage: fileResults.reduce(
+			(sum, result) => addTokenUsage(sum, result.usage),
+			emptyTokenUsage(),
+		),
+		cacheHit: fileResults.every((result) => result.cacheHit),
+		model: fileResults[0]?.model ?? model,
+		promptVersion: fileResults[0]?.promptVersion ?? promptVersion,
+		fallbacks: fileResults.flatMap((result) => result.fallbacks),
+	};
+}
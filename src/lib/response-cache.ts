@@ -0,0 +1,72 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { TwoPassConfig } from "../types/index.js";
+import { type CassetteRequest, sha256 } from "./cassette.js";
+
+/**
+ * Inputs that determine an AI response: the cassette inputs plus the
+ * provider and generation parameters that influence the output.
+ */
+export interface ResponseCacheRequest extends CassetteRequest {
+	params: Record<string, unknown>;
+}
+
+export interface CachedResponse<T> {
+	response: T;
+	cacheHit: boolean;
+}
+
+/**
+ * Content-addressed key: image hashes, prompt version, model and parameters.
+ */
+export function responseCacheKey(request: ResponseCacheRequest): string {
+	return sha256(
+		JSON.stringify({
+			model: request.model,
+			promptVersion: sha256(request.prompt),
+			imageHashes: request.imageHashes,
+			params: request.params,
+			...(request.sample ? { sample: request.sample } : {}),
+		}),
+	);
+}
+
+function cacheFilePath(dir: string, key: string): string {
+	return path.join(path.resolve(dir), key.slice(0, 2), `${key}.json`);
+}
+
+/**
+ * Return the cached response for identical inputs, or run the call and
+ * store its response. Unreadable cache entries are treated as misses.
+ */
+export async function withResponseCache<T>(
+	request: ResponseCacheRequest,
+	cache: TwoPassConfig["cache"],
+	fn: () => Promise<T>,
+): Promise<CachedResponse<T>> {
+	if (!cache.enabled) {
+		return { response: await fn(), cacheHit: false };
+	}
+
+	const filePath = cacheFilePath(cache.dir, responseCacheKey(request));
+
+	try {
+		const content = await fs.readFile(filePath, "utf-8");
+		return { response: JSON.parse(content) as T, cacheHit: true };
+	} catch {
+		// Miss
+	}
+
+	const response = await fn();
+
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(filePath, JSON.stringify(response), "utf-8");
+
+	return { response, cacheHit: false };
+}
+
+export async function purgeResponseCache(
+	cache: TwoPassConfig["cache"],
+): Promise<void> {
+	await fs.rm(path.resolve(cache.dir), { recursive: true, force: true });
+}
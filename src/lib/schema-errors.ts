@@ -0,0 +1,12 @@
+import type { z } from "zod";
+
+/**
+ * One "path: message" line per zod issue, for repair prompts and config
+ * errors.
+ */
+export function formatSchemaErrors(error: z.ZodError): string[] {
+	return error.issues.map((issue) => {
+		const location = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+		return `${location}: ${issue.message}`;
+	});
+}
@@ -57,6 +57,7 @@ export function transformToLademittelmahnung(
 		dplVoucherNr: extraction.references.dplVoucherNr,
 		confidence: extraction.confidence,
 		notes: extraction.notes,
+		model: extraction.model,
 		needsReview: reviewCheck.needsReview,
 		reviewReasons: reviewCheck.reasons,
 	};
@@ -192,6 +193,7 @@ function mergeExtractions(
 				.map((e) => e.notes)
 				.filter(Boolean)
 				.join("; ") || null,
+		model: base.model,
 		needsReview: anyNeedsReview,
 		reviewReasons: [...new Set(allReviewReasons)],
 	};
@@ -0,0 +1,91 @@
+import type { LanguageModelUsage } from "ai";
+import type { ModelPricing, TokenUsage, UsageReport } from "../types/index.js";
+
+export function emptyTokenUsage(): TokenUsage {
+	return {
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+		estimatedCostUsd: 0,
+	};
+}
+
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+	return {
+		promptTokens: a.promptTokens + b.promptTokens,
+		completionTokens: a.completionTokens + b.completionTokens,
+		totalTokens: a.totalTokens + b.totalTokens,
+		estimatedCostUsd: a.estimatedCostUsd + b.estimatedCostUsd,
+	};
+}
+
+/**
+ * Convert AI SDK usage into token counts, without cost.
+ */
+export function fromLanguageModelUsage(usage: LanguageModelUsage): TokenUsage {
+	const promptTokens = usage.inputTokens ?? 0;
+	const completionTokens = usage.outputTokens ?? 0;
+
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: usage.totalTokens ?? promptTokens + completionTokens,
+		estimatedCostUsd: 0,
+	};
+}
+
+/**
+ * Attach an estimated cost to token counts using the model's price.
+ */
+export function priceTokenUsage(
+	usage: TokenUsage,
+	model: string,
+	pricing: Record<string, ModelPricing>,
+): TokenUsage {
+	const price = pricing[model];
+	if (!price) {
+		return { ...usage, estimatedCostUsd: 0 };
+	}
+
+	return {
+		...usage,
+		estimatedCostUsd:
+			(usage.promptTokens * price.promptPerMillion +
+				usage.completionTokens * price.completionPerMillion) /
+			1_000_000,
+	};
+}
+
+export function buildUsageReport(
+	classification: TokenUsage,
+	extraction: TokenUsage,
+	pages: number,
+): UsageReport {
+	const total = addTokenUsage(classification, extraction);
+
+	return {
+		classification,
+		extraction,
+		total,
+		pages,
+		costPerPageUsd: pages > 0 ? total.estimatedCostUsd / pages : 0,
+	};
+}
+
+export function sumUsageReports(reports: UsageReport[]): UsageReport {
+	let classification = emptyTokenUsage();
+	let extraction = emptyTokenUsage();
+	let pages = 0;
+
+	for (const report of reports) {
+		classification = addTokenUsage(classification, report.classification);
+		extraction = addTokenUsage(extraction, report.extraction);
+		pages += report.pages;
+	}
+
+	return buildUsageReport(classification, extraction, pages);
+}
+
+export function formatCost(usd: number): string {
+	return `$${usd.toFixed(4)}`;
+}
@@ -3,7 +3,9 @@ import type {
 	TwoPassExtractionResult,
 	ValidationResult,
 } from "../types/index.js";
+import { findBarcodeMismatches } from "./barcode-reader.js";
 import { DEFAULT_CONFIG } from "./config.js";
+import { formatDisagreement } from "./ensemble.js";
 
 export function validateExtraction(
 	extraction: TwoPassExtractionResult,
@@ -117,6 +119,9 @@ export function validateExtraction(
 		warnings.push("Exchange status is unclear (null)");
 	}
 
+	// 11. Check references against barcodes decoded from the pages
+	warnings.push(...findBarcodeMismatches(result));
+
 	return {
 		result,
 		errors,
@@ -155,6 +160,11 @@ export function needsReview(
 		reasons.push(`Multiple warnings: ${validation.warnings.length} warning(s)`);
 	}
 
+	// Ensemble runs that did not agree
+	for (const disagreement of extraction.disagreements) {
+		reasons.push(formatDisagreement(disagreement));
+	}
+
 	// No pallet movements
 	if (
 		extraction.pickup.übernommen === 0 &&
@@ -7,24 +7,50 @@ import { Hono } from "hono";
 import { bodyLimit } from "hono/body-limit";
 import { cors } from "hono/cors";
 import { env } from "./env.js";
+import { decodeBarcodes } from "./lib/barcode-reader.js";
 import { classifyPages, filterRelevantPages } from "./lib/classifier.js";
-import { getConfig, getConfigFromEnv } from "./lib/config.js";
-import { runExtractionPass } from "./lib/extractor-twopass.js";
-import { processPDF } from "./lib/pdf-processor.js";
+import { loadConfig } from "./lib/config-file.js";
+import {
+	describeSegment,
+	segmentDeliveries,
+} from "./lib/delivery-segmenter.js";
+import {
+	loadExtractionExamples,
+	runSegmentedExtraction,
+} from "./lib/extractor-twopass.js";
+import {
+	collectInputGroups,
+	containerExtension,
+	isIngestible,
+} from "./lib/ingestion.js";
+import { inputKind, loadInput } from "./lib/input-loader.js";
+import { missingProviderCredentials } from "./lib/llm-provider.js";
+import { splitPages } from "./lib/page-splitter.js";
+import { configurePageStore, releasePages } from "./lib/page-store.js";
+import { InputError, toProcessingError } from "./lib/preflight.js";
+import { preprocessPages } from "./lib/preprocessor.js";
+import { loadPrompts } from "./lib/prompt-registry.js";
 import { transformToLademittelmahnung } from "./lib/transform.js";
+import {
+	addTokenUsage,
+	buildUsageReport,
+	emptyTokenUsage,
+} from "./lib/usage.js";
 import { validateExtraction } from "./lib/validation.js";
-import type { TwoPassExtractionResult } from "./types/index.js";
+import type { PDFPage, SegmentResult } from "./types/index.js";
 
 function formatSummary(
-	extractions: TwoPassExtractionResult[],
+	segments: SegmentResult[],
 	processingTimeMs: number,
 	needsReviewCount: number,
 ): string {
 	const lines: string[] = [];
 	const duration = (processingTimeMs / 1000).toFixed(2);
+	const extractions = segments.flatMap((segment) => segment.extractions);
 
 	lines.push("=== Extraction Complete ===");
 	lines.push(`Duration: ${duration}s`);
+	lines.push(`Deliveries: ${segments.length}`);
 	lines.push(`Extractions: ${extractions.length}`);
 
 	if (needsReviewCount > 0) {
@@ -34,26 +60,56 @@ function formatSummary(
 		);
 	}
 
-	for (const extraction of extractions) {
-		lines.push("");
-		lines.push(`Pallet Type: ${extraction.palletType}`);
-		lines.push(`  Pickup: ${extraction.pickup.location || "Unknown"}`);
-		lines.push(`    Date: ${extraction.pickup.date || "Unknown"}`);
-		lines.push(`    übernommen: ${extraction.pickup.übernommen}`);
-		lines.push(`  Delivery: ${extraction.delivery.location || "Unknown"}`);
-		lines.push(`    Date: ${extraction.delivery.date || "Unknown"}`);
-		lines.push(`    überlassen: ${extraction.delivery.überlassen}`);
-		lines.push(`    übernommen: ${extraction.delivery.übernommen}`);
-		lines.push(
-			`  Exchanged: ${extraction.exchangeStatus.exchanged ?? "Unknown"}`,
-		);
-		lines.push(`  Saldo: ${extraction.saldo}`);
-		lines.push(`  Confidence: ${(extraction.confidence * 100).toFixed(1)}%`);
+	for (const { segment, extractions, error } of segments) {
+		if (segments.length > 1) {
+			lines.push("");
+			lines.push(
+				`--- Delivery ${segment.index}: ${describeSegment(segment)} ---`,
+			);
+		}
+		if (error) {
+			lines.push(`Failed: ${error.message}`);
+		}
+		for (const extraction of extractions) {
+			lines.push("");
+			lines.push(`Pallet Type: ${extraction.palletType}`);
+			lines.push(`  Pickup: ${extraction.pickup.location || "Unknown"}`);
+			lines.push(`    Date: ${extraction.pickup.date || "Unknown"}`);
+			lines.push(`    übernommen: ${extraction.pickup.übernommen}`);
+			lines.push(`  Delivery: ${extraction.delivery.location || "Unknown"}`);
+			lines.push(`    Date: ${extraction.delivery.date || "Unknown"}`);
+			lines.push(`    überlassen: ${extraction.delivery.überlassen}`);
+			lines.push(`    übernommen: ${extraction.delivery.übernommen}`);
+			lines.push(
+				`  Exchanged: ${extraction.exchangeStatus.exchanged ?? "Unknown"}`,
+			);
+			lines.push(`  Saldo: ${extraction.saldo}`);
+			lines.push(`  Confidence: ${(extraction.confidence * 100).toFixed(1)}%`);
+		}
 	}
 
 	return lines.join("\n");
 }
 
+// Read once at startup (CONFIG_FILE + env) so a bad config or missing
+// prompt fails fast
+const serverConfig = await loadConfig();
+const missingCredentials =
+	serverConfig.cassette.mode === "replay"
+		? null
+		: missingProviderCredentials(serverConfig.provider);
+if (missingCredentials) {
+	console.error(`Error: ${missingCredentials}`);
+	process.exit(1);
+}
+const prompts = await loadPrompts(serverConfig);
+const examples = await loadExtractionExamples(serverConfig);
+configurePageStore(serverConfig);
+const promptVersions = {
+	classification: prompts.classification.id,
+	extraction: prompts.extraction.id,
+};
+
 const app = new Hono();
 
 app.use("*", cors());
@@ -73,17 +129,19 @@ app.use("/process", async (c, next) => {
 });
 
 app.get("/health", (c) => {
-	const config = getConfig(getConfigFromEnv());
 	return c.json({
 		status: "ok",
-		classificationModel: config.classification.model,
-		extractionModel: config.extraction.model,
+		provider: serverConfig.provider.type,
+		classificationModel: serverConfig.classification.model,
+		extractionModel: serverConfig.extraction.model,
+		promptVersions,
 	});
 });
 
 app.post("/process", async (c) => {
 	const startTime = Date.now();
 	let tempDir: string | undefined;
+	let requestPages: PDFPage[] = [];
 
 	try {
 		const formData = await c.req.formData();
@@ -108,7 +166,7 @@ app.post("/process", async (c) => {
 		}
 
 		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pallet-extract-"));
-		const pdfPaths: string[] = [];
+		const inputPaths: string[] = [];
 
 		for (let i = 0; i < files.length; i++) {
 			const file = files[i];
@@ -116,36 +174,65 @@ app.post("/process", async (c) => {
 				continue;
 			}
 
-			if (
-				file.type !== "application/pdf" &&
-				!file.name.toLowerCase().endsWith(".pdf")
-			) {
+			const kind = inputKind(file.name, file.type);
+			const container = containerExtension(file.name, file.type);
+			if (!kind && !container) {
 				return c.json({ error: `Invalid file type: ${file.name}` }, 400);
 			}
 
-			const fileName = file.name || `upload_${i}.pdf`;
+			// Keep a recognisable extension so the loader picks the right decoder
+			const baseName = path.basename(file.name || `upload_${i}`);
+			const extension = container ?? `.${kind === "jpeg" ? "jpg" : kind}`;
+			const fileName = isIngestible(baseName)
+				? baseName
+				: `${baseName}${extension}`;
 			const filePath = path.join(tempDir, fileName);
 			const buffer = Buffer.from(await file.arrayBuffer());
 			await fs.writeFile(filePath, buffer);
-			pdfPaths.push(filePath);
+			inputPaths.push(filePath);
 		}
 
-		if (pdfPaths.length === 0) {
-			return c.json({ error: "No valid PDF files found" }, 400);
+		if (inputPaths.length === 0) {
+			return c.json({ error: "No valid input files found" }, 400);
 		}
 
-		const config = getConfig(getConfigFromEnv());
+		const config = { ...serverConfig };
+		// High-value tours can opt into ensemble extraction per request
+		if (formData.get("ensemble") === "true") {
+			config.ensemble = { ...config.ensemble, enabled: true };
+		}
+
+		// Emails and archives are unpacked; all documents form one delivery
+		const { groups: inputGroups, failures } = await collectInputGroups(
+			inputPaths,
+			path.join(tempDir, "unpacked"),
+			config,
+		);
+		// One delivery per request: an unusable container fails all of it
+		if (failures.length > 0) {
+			throw failures[0].error;
+		}
+		const documentPaths = inputGroups.flatMap((group) => group.files);
+		const sources = inputGroups.map((group) => group.source);
+		if (documentPaths.length === 0) {
+			return c.json({ error: "No documents found in the uploaded files" }, 400);
+		}
 
-		// Step 1: Process all PDFs and combine pages
-		const allPages = [];
+		// Step 1: Render all inputs and combine pages
 		let totalPdfPages = 0;
 
-		for (const pdfPath of pdfPaths) {
-			const pdfResult = await processPDF(pdfPath);
-			allPages.push(...pdfResult.pages);
+		for (const inputPath of documentPaths) {
+			const pdfResult = await loadInput(inputPath, config);
+			requestPages.push(...pdfResult.pages);
 			totalPdfPages += pdfResult.totalPages;
 		}
 
+		const allPages = await decodeBarcodes(
+			await splitPages(await preprocessPages(requestPages, config), config),
+			config,
+		);
+		requestPages = allPages;
+
 		// Step 2: Classification pass
 		const classification = await classifyPages(allPages, config);
 
@@ -153,7 +240,8 @@ app.post("/process", async (c) => {
 			return c.json({
 				success: true,
 				processingTimeMs: Date.now() - startTime,
-				filesProcessed: pdfPaths.length,
+				filesProcessed: documentPaths.length,
+				sources,
 				pagesProcessed: totalPdfPages,
 				relevantPages: 0,
 				extractionsCount: 0,
@@ -161,44 +249,105 @@ app.post("/process", async (c) => {
 				classification: classification.pages,
 				extractions: [],
 				lademittelmahnung: [],
+				repairAttempts: classification.repairAttempts,
+				callAttempts: classification.callAttempts,
+				fallbacks: classification.fallbacks,
+				usage: buildUsageReport(
+					classification.usage,
+					emptyTokenUsage(),
+					totalPdfPages,
+				),
+				promptVersions,
 				message: "No pallet-relevant documents found",
 			});
 		}
 
-		// Step 3: Filter to relevant pages
-		const { relevantPages, metadata } = filterRelevantPages(
+		// Step 3: Cut the input into deliveries and drop irrelevant pages
+		const segments = segmentDeliveries(classification, config);
+		const { relevantPages } = filterRelevantPages(allPages, classification);
+		await releasePages(allPages.filter((p) => !relevantPages.includes(p)));
+
+		// Step 4: Extraction pass, once per delivery
+		const segmentPasses = await runSegmentedExtraction(
 			allPages,
 			classification,
-		);
-
-		// Step 4: Extraction pass
-		const extractionResult = await runExtractionPass(
-			relevantPages,
-			metadata,
+			segments,
 			config,
 		);
+		const passes = segmentPasses.map(({ result }) => result);
+		const repairAttempts = [
+			...classification.repairAttempts,
+			...passes.flatMap((pass) => pass.repairAttempts),
+		];
+		const callAttempts = [
+			...classification.callAttempts,
+			...passes.flatMap((pass) => pass.callAttempts),
+		];
+		const fallbacks = [
+			...classification.fallbacks,
+			...passes.flatMap((pass) => pass.fallbacks),
+		];
+		const usage = buildUsageReport(
+			classification.usage,
+			passes.reduce(
+				(sum, pass) => addTokenUsage(sum, pass.usage),
+				emptyTokenUsage(),
+			),
+			totalPdfPages,
+		);
 
-		if (!extractionResult.success) {
+		if (passes.every((pass) => !pass.success)) {
 			return c.json(
 				{
-					error: extractionResult.error || "Extraction failed",
+					error: passes[0]?.error || "Extraction failed",
+					code: passes[0]?.errorCode ?? "internal_error",
 					processingTimeMs: Date.now() - startTime,
 					classification: classification.pages,
+					callAttempts,
+					fallbacks,
+					usage,
 				},
 				500,
 			);
 		}
 
-		// Step 5: Validate extractions
-		const validations = extractionResult.extractions.map((e) =>
-			validateExtraction(e, config),
+		// Steps 5-6: Validate extractions and transform them to
+		// Lademittelmahnung format
+		const segmentResults: SegmentResult[] = segmentPasses.map(
+			({ segment, result: pass }) => {
+				if (!pass.success) {
+					return {
+						segment,
+						success: false,
+						extractions: [],
+						lademittelmahnung: [],
+						usage: pass.usage,
+						error: {
+							code: pass.errorCode ?? "internal_error",
+							message: pass.error || "Extraction failed",
+							file: null,
+						},
+					};
+				}
+				const validations = pass.extractions.map((e) =>
+					validateExtraction(e, config),
+				);
+				return {
+					segment,
+					success: true,
+					extractions: validations.map((v) => v.result),
+					lademittelmahnung: validations.map((v) =>
+						transformToLademittelmahnung(v.result, v, config),
+					),
+					usage: pass.usage,
+				};
+			},
 		);
-		const validatedExtractions = validations.map((v) => v.result);
-
-		// Step 6: Transform to Lademittelmahnung format
-		const lademittelmahnungResults = validatedExtractions.map((extraction, i) =>
-			transformToLademittelmahnung(extraction, validations[i], config),
+		const validatedExtractions = segmentResults.flatMap((s) => s.extractions);
+		const lademittelmahnungResults = segmentResults.flatMap(
+			(s) => s.lademittelmahnung,
 		);
+		const failedSegments = segmentResults.filter((s) => !s.success).length;
 
 		const needsReviewCount = lademittelmahnungResults.filter(
 			(r) => r.needsReview,
@@ -206,37 +355,53 @@ app.post("/process", async (c) => {
 
 		const processingTimeMs = Date.now() - startTime;
 		const summary = formatSummary(
-			validatedExtractions,
+			segmentResults,
 			processingTimeMs,
 			needsReviewCount,
 		);
 
 		return c.json({
-			success: true,
+			// Some deliveries may have failed; see segments for which
+			success: failedSegments === 0,
 			processingTimeMs,
-			filesProcessed: pdfPaths.length,
+			filesProcessed: documentPaths.length,
+			sources,
 			pagesProcessed: totalPdfPages,
 			relevantPages: classification.relevantPages,
 			extractionsCount: validatedExtractions.length,
-			needsReview: needsReviewCount > 0,
+			deliveriesCount: segmentResults.length,
+			failedDeliveriesCount: failedSegments,
+			needsReview: needsReviewCount > 0 || failedSegments > 0,
 			needsReviewCount,
 			summary,
 			classification: classification.pages,
 			extractions: validatedExtractions,
 			lademittelmahnung: lademittelmahnungResults,
+			segments: segmentResults,
+			repairAttempts,
+			callAttempts,
+			fallbacks,
+			usage,
+			promptVersions,
 		});
 	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		console.error("Processing error:", errorMessage);
+		const { code, message, file } = toProcessingError(error);
+		console.error(`Processing error [${code}]:`, message);
 
+		// Unusable uploads are the client's problem, everything else is ours
+		const status = error instanceof InputError ? 422 : 500;
 		return c.json(
 			{
-				error: errorMessage,
+				error: message,
+				code,
+				file: file ? path.basename(file) : null,
 				processingTimeMs: Date.now() - startTime,
 			},
-			500,
+			status,
 		);
 	} finally {
+		// The page store is shared by all requests; free this one's images
+		await releasePages(requestPages);
 		if (tempDir) {
 			try {
 				await fs.rm(tempDir, { recursive: true, force: true });
@@ -248,11 +413,15 @@ app.post("/process", async (c) => {
 });
 
 const port = env.PORT;
-const config = getConfig(getConfigFromEnv());
 
 console.log(`Starting server on port ${port}...`);
-console.log(`Classification model: ${config.classification.model}`);
-console.log(`Extraction model: ${config.extraction.model}`);
+console.log(`Provider: ${serverConfig.provider.type}`);
+console.log(`Classification model: ${serverConfig.classification.model}`);
+console.log(`Extraction model: ${serverConfig.extraction.model}`);
+console.log(
+	`Prompts: ${promptVersions.classification}, ${promptVersions.extraction}`,
+);
+console.log(`Few-shot examples: ${examples.length}`);
 
 serve({
 	fetch: app.fetch,
@@ -260,5 +429,7 @@ serve({
 });
 
 console.log(`Server running at http://localhost:${port}`);
-console.log(`POST /process - Upload PDFs via form-data with field "files"`);
+console.log(
+	`POST /process - Upload PDFs, scans, .eml or .zip via form-data with field "files"`,
+);
 console.log(`GET /health - Health check`);
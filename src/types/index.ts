@@ -254,11 +254,135 @@ export interface ExcelRow {
 
 export interface PDFPage {
 	pageNumber: number;
-	imageBase64: string;
+	// Encoded image in the page store; read it with readPageImage
+	imageId: string;
+	// Rendered size in pixels
 	width: number;
 	height: number;
+	mimeType: string;
+	// Encoded image size, i.e. what is sent to the model
+	byteSize: number;
+	// Corrections applied by preprocessing (null when it did not run)
+	corrections: PageCorrections | null;
+	// "digital" when the PDF has a usable text layer for this page
+	origin: PageOrigin;
+	textItems: PageTextItem[];
+	// Set when this page is one of several documents cut from a scan
+	split: PageSplit | null;
+	// Barcodes decoded locally (empty until barcode reading has run)
+	barcodes: PageBarcode[];
+	// 256-bit difference hash of the image as hex (null until duplicate
+	// detection has run)
+	perceptualHash: string | null;
 }
 
+export type PageOrigin = "digital" | "scanned";
+
+/**
+ * A run of text from the PDF text layer
+ */
+export interface PageTextItem {
+	text: string;
+	// Position and size as fractions of the page, origin top-left
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * A 1D or 2D barcode decoded from a page image
+ */
+export interface PageBarcode {
+	// ZXing format name, e.g. "Code128", "QRCode", "DataMatrix"
+	format: string;
+	text: string;
+	// Bounding box as fractions of the page, origin top-left
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Where a virtual page was cut from when one scan held several documents
+ */
+export interface PageSplit {
+	// Page number of the scan before splitting
+	originalPageNumber: number;
+	// 1-based position of this part on the original page, and the total
+	part: number;
+	parts: number;
+	// Region of the split page (after preprocessing), as fractions, origin
+	// top-left
+	region: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Image corrections applied to a page before classification
+ */
+export interface PageCorrections {
+	// Clockwise rotation in degrees: 0, 90, 180 or 270
+	rotation: number;
+	// Skew angle in degrees that was straightened out
+	deskewAngle: number;
+	contrastNormalized: boolean;
+	// Region kept after trimming borders, in pixels of the corrected page
+	crop: { left: number; top: number; width: number; height: number } | null;
+}
+
+/**
+ * Encoding for rendered page images
+ */
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+/**
+ * How PDF pages are rendered to images
+ */
+export interface RenderOptions {
+	// Multiplier on the PDF's 72 DPI; ignored when dpi is set
+	scale: number;
+	dpi: number | null;
+	grayscale: boolean;
+	format: ImageFormat;
+	// 1-100, used for jpeg and webp
+	quality: number;
+}
+
+/**
+ * Why an input file was rejected before processing
+ */
+export type InputErrorCode =
+	| "file_not_found"
+	| "unsupported_format"
+	| "file_too_large"
+	| "encrypted"
+	| "truncated"
+	| "malformed"
+	| "empty_document"
+	| "too_many_pages";
+
+export type ProcessingErrorCode =
+	| InputErrorCode
+	| "no_relevant_pages"
+	| "model_error"
+	| "internal_error";
+
+/**
+ * Error reported for a failed group or request, without stack traces
+ */
+export interface ProcessingError {
+	code: ProcessingErrorCode;
+	message: string;
+	// Input file the error refers to, if any
+	file: string | null;
+}
+
+/**
+ * Input file formats that can be turned into pages
+ */
+export type InputKind = "pdf" | "tiff" | "jpeg" | "png" | "heic";
+
 export interface PDFProcessingResult {
 	filePath: string;
 	totalPages: number;
@@ -397,6 +521,149 @@ export interface DocumentGroup {
 	prefix: string;
 	files: string[];
 	pages: PDFPage[];
+	// File each page came from, in the order of pages
+	pageFiles: string[];
+	source: GroupSource;
+}
+
+/**
+ * Where the files of a document group came from
+ */
+export interface GroupSource {
+	kind: "files" | "email" | "archive";
+	// The .eml or .zip file, null for loose files
+	container: string | null;
+	// Email headers; null for archives and loose files
+	subject: string | null;
+	from: string | null;
+	date: string | null;
+	// Attachment names or archive entry paths of the group's files
+	entries: string[];
+}
+
+/**
+ * How batch inputs are formed into deliveries: by file name prefix, or by
+ * reference numbers shared between classified pages
+ */
+export type GroupingMode = "prefix" | "references";
+
+/**
+ * Named rule for grouping files into deliveries by file name, for
+ * shippers whose naming the built-in suffix rules do not cover.
+ * - regex: the capture groups of `pattern` on the file name (without
+ *   extension) form the group key; the whole match if it has none
+ * - separators: the name is split at any of the `separators` characters
+ *   and the first `fields` parts form the key
+ * - manifest: a CSV next to the files maps file names to deliveries
+ * Files a profile does not cover fall back to the built-in rules.
+ */
+export type GroupingProfile =
+	| { type: "regex"; pattern: string; flags?: string }
+	| { type: "separators"; separators: string; fields: number }
+	| { type: "manifest"; file: string };
+
+/**
+ * Why a page ended up in its reference group
+ */
+export interface GroupingJoin {
+	file: string;
+	// Page number within its file
+	pageNumber: number;
+	// "first": opened the group; "reference": shares a reference with an
+	// earlier page; "continuation": no references, follows the previous
+	// page of the same file
+	reason: "first" | "reference" | "continuation";
+	reference: string | null;
+	joinedTo: { file: string; pageNumber: number } | null;
+}
+
+/**
+ * Pages from one or more files that belong to the same delivery
+ */
+export interface ReferenceGroup {
+	prefix: string;
+	files: string[];
+	// Normalised references seen on the group's pages
+	references: string[];
+	pages: GroupingJoin[];
+}
+
+/**
+ * Explanation of content-based grouping, saved with batch results
+ */
+export interface GroupingReport {
+	mode: GroupingMode;
+	groups: ReferenceGroup[];
+	// Irrelevant pages are not grouped
+	skippedPages: Array<{ file: string; pageNumber: number; reason: string }>;
+}
+
+/**
+ * A run of pages in one input that belongs to one delivery
+ */
+export interface DeliverySegment {
+	// 1-based, in page order
+	index: number;
+	// Relevant pages of the segment, in the input's page numbering
+	pageNumbers: number[];
+	firstPage: number;
+	lastPage: number;
+	// Normalised references seen on the segment's pages
+	references: string[];
+}
+
+/**
+ * Extraction output of one delivery segment
+ */
+export interface SegmentResult {
+	segment: DeliverySegment;
+	success: boolean;
+	extractions: TwoPassExtractionResult[];
+	lademittelmahnung: TwoPassLademittelmahnungOutput[];
+	usage: TokenUsage;
+	error?: ProcessingError;
+}
+
+/**
+ * What batch mode does with duplicate pages and groups: mark them for
+ * review, or leave them out of extraction
+ */
+export type DuplicateAction = "flag" | "drop";
+
+/**
+ * A relevant page that repeats one seen earlier in the batch
+ */
+export interface DuplicatePage {
+	group: string;
+	// Page number in its group's classification
+	pageNumber: number;
+	duplicateOf: { group: string; pageNumber: number };
+	// "image": near-identical scan; "references": same document type and
+	// references in another file, e.g. the driver's and the warehouse's copy
+	match: "image" | "references";
+	// Bits differing between the two perceptual hashes
+	hashDistance: number;
+	dropped: boolean;
+}
+
+/**
+ * Files to be processed together as one delivery
+ */
+export interface InputGroup {
+	prefix: string;
+	files: string[];
+	source: GroupSource;
+	// Why each file is in the group, in the order of files
+	reasons: string[];
+}
+
+/**
+ * An email or archive that could not be unpacked
+ */
+export interface ContainerFailure {
+	prefix: string;
+	source: GroupSource;
+	error: unknown;
 }
 
 export interface GroupExtractionResult {
@@ -469,6 +736,91 @@ export interface PageClassification {
 	keyReferences: string[];
 	palletInfoFound: string | null;
 	reason: string;
+	source: ClassificationSource;
+}
+
+/**
+ * Who classified a page: the model, or the local pre-classifier
+ */
+export type ClassificationSource = "model" | "rules";
+
+/**
+ * The AI pass a call belongs to
+ */
+export type AIPass = "classification" | "extraction";
+
+/**
+ * A model response that failed schema validation and was sent back for repair
+ */
+export interface RepairAttempt {
+	pass: AIPass;
+	attempt: number;
+	response: string;
+	errors: string[];
+}
+
+/**
+ * One HTTP call to the model, including failed calls that were retried
+ */
+export interface CallAttempt {
+	pass: AIPass;
+	model: string;
+	attempt: number;
+	durationMs: number;
+	outcome: "success" | "retry" | "failed";
+	error?: string;
+	statusCode?: number;
+	// Wait before the next attempt (Retry-After or backoff with jitter)
+	delayMs?: number;
+}
+
+/**
+ * A model that was abandoned in favour of the next one in the fallback chain
+ */
+export interface ModelFallback {
+	pass: AIPass;
+	model: string;
+	reason: string;
+}
+
+/**
+ * Retry behaviour for AI calls
+ */
+export interface RetryPolicy {
+	maxAttempts: number;
+	initialDelayMs: number;
+	maxDelayMs: number;
+	// Per-call timeout enforced via AbortSignal
+	timeoutMs: number;
+}
+
+/**
+ * Token counts and estimated cost of one or more AI calls
+ */
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	estimatedCostUsd: number;
+}
+
+/**
+ * Usage breakdown for a processed document group
+ */
+export interface UsageReport {
+	classification: TokenUsage;
+	extraction: TokenUsage;
+	total: TokenUsage;
+	pages: number;
+	costPerPageUsd: number;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+	promptPerMillion: number;
+	completionPerMillion: number;
 }
 
 /**
@@ -480,6 +832,15 @@ export interface ClassificationPassResult {
 	documentTypesFound: TwoPassDocumentType[];
 	totalPages: number;
 	relevantPages: number;
+	repairAttempts: RepairAttempt[];
+	callAttempts: CallAttempt[];
+	usage: TokenUsage;
+	// Served from the response cache; usage is 0 as nothing was sent
+	cacheHit: boolean;
+	// Model(s) that produced the classifications, comma-separated
+	model: string;
+	promptVersion: string;
+	fallbacks: ModelFallback[];
 }
 
 /**
@@ -540,6 +901,39 @@ export interface TwoPassExtractionResult {
 	exchangeStatus: TwoPassExchangeStatus;
 	confidence: number;
 	notes: string | null;
+	// Model that produced this extraction (after any fallbacks); ensemble
+	// results list every contributing model
+	model: string;
+	// Fields the ensemble runs disagreed on (empty without ensemble)
+	disagreements: FieldDisagreement[];
+	promptVersion: string;
+	// Ids of the few-shot examples included in the prompt
+	fewShotExamples: string[];
+	// Reference numbers decoded from barcodes on the extracted pages
+	barcodeReferences: BarcodeReference[];
+}
+
+/**
+ * A barcode value read as a reference number
+ */
+export interface BarcodeReference {
+	// Reference it was matched to; null when the barcode could not be
+	// attributed (e.g. an SSCC pallet label)
+	field: keyof TwoPassReferences | null;
+	value: string;
+	format: string;
+	pageNumber: number;
+	// True when the value filled a reference the model left empty
+	filled: boolean;
+}
+
+/**
+ * A field on which ensemble runs did not agree
+ */
+export interface FieldDisagreement {
+	field: string;
+	// Distinct values and how many runs returned each, winner first
+	votes: Array<{ value: unknown; count: number }>;
 }
 
 /**
@@ -581,6 +975,8 @@ export interface TwoPassLademittelmahnungOutput {
 	dplVoucherNr: string | null;
 	confidence: number;
 	notes: string | null;
+	// Model that produced the underlying extraction
+	model: string;
 	needsReview: boolean;
 	reviewReasons: string[];
 }
@@ -603,25 +999,99 @@ export interface TwoPassProcessingResult {
 	classification: ClassificationPassResult;
 	extractions: TwoPassExtractionResult[];
 	lademittelmahnung: TwoPassLademittelmahnungOutput[];
+	// One entry per delivery found in the input; extractions and
+	// lademittelmahnung above hold all segments' results together
+	segments: SegmentResult[];
+	repairAttempts: RepairAttempt[];
+	callAttempts: CallAttempt[];
+	fallbacks: ModelFallback[];
+	usage: UsageReport;
 	processingTimeMs: number;
 	success: boolean;
-	error?: string;
+	error?: ProcessingError;
 }
 
+/**
+ * LLM provider used for both passes.
+ * - openrouter: hosted models via OpenRouter (default)
+ * - openai-compatible: any OpenAI-compatible endpoint (Ollama, vLLM, ...)
+ * - fake: canned responses per model id, no network access
+ */
+export type TwoPassProviderConfig =
+	| {
+			type: "openrouter";
+			apiKey?: string;
+			structuredOutputs?: boolean;
+	  }
+	| {
+			type: "openai-compatible";
+			name: string;
+			baseURL: string;
+			apiKey?: string;
+			structuredOutputs?: boolean;
+	  }
+	| {
+			type: "fake";
+			responses: Record<string, string>;
+	  };
+
+/**
+ * Annotated example document with its correct extraction, shown to the
+ * model as a few-shot example for matching document types
+ */
+export interface FewShotExample {
+	id: string;
+	documentTypes: TwoPassDocumentType[];
+	// Base64 page images
+	images: string[];
+	notes: string | null;
+	// Correct output in the raw extraction response format
+	expected: unknown[];
+}
+
+/**
+ * Prompts managed by the prompt registry
+ */
+export type PromptName = "classification" | "extraction";
+
+/**
+ * A prompt template loaded from the registry, with its provenance
+ */
+export interface PromptTemplate {
+	name: PromptName;
+	version: string;
+	// "<name>@<version>#<content hash>", stamped into outputs
+	id: string;
+	// File path, or the legacy env var it was decoded from
+	source: string;
+	template: string;
+}
+
+/**
+ * Record/replay mode for AI calls
+ */
+export type CassetteMode = "off" | "record" | "replay";
+
 /**
  * Configuration for two-pass extraction
  */
 export interface TwoPassConfig {
+	provider: TwoPassProviderConfig;
 	classification: {
 		model: string;
 		temperature: number;
 		maxTokens: number;
 		confidenceThreshold: number;
+		maxRepairAttempts: number;
+		// Tried in order when the primary model fails or is not confident
+		fallbackModels: string[];
 	};
 	extraction: {
 		model: string;
 		temperature: number;
 		maxTokens: number;
+		maxRepairAttempts: number;
+		fallbackModels: string[];
 	};
 	validation: {
 		autoCorrectSaldo: boolean;
@@ -634,4 +1104,124 @@ export interface TwoPassConfig {
 		saveRawExtraction: boolean;
 		outputDir: string;
 	};
+	cassette: {
+		mode: CassetteMode;
+		dir: string;
+	};
+	cache: {
+		enabled: boolean;
+		dir: string;
+	};
+	retry: RetryPolicy;
+	// Pre-flight limits for input files
+	input: {
+		maxPages: number;
+		maxFileSizeMb: number;
+		// Tried in order on password-protected PDFs
+		passwords: string[];
+		// Budget for everything unpacked from one .zip or .eml, nested
+		// archives included, checked before decompressing
+		maxArchiveSizeMb: number;
+		maxArchiveEntries: number;
+	};
+	rendering: RenderOptions;
+	// Page images beyond the ceiling are spilled to temp files
+	memory: {
+		maxPageMemoryMb: number;
+		// Parent of the spill directory; null for the OS temp dir
+		spillDir: string | null;
+		// Pages rendered before pdf.js caches are freed, and the most page
+		// images sent in one classification request
+		batchPages: number;
+	};
+	// Optional image clean-up between rendering and classification
+	preprocessing: {
+		enabled: boolean;
+		autoRotate: boolean;
+		deskew: boolean;
+		maxSkewDegrees: number;
+		normalizeContrast: boolean;
+		trimBorders: boolean;
+	};
+	// How the batch forms deliveries from its input files
+	grouping: {
+		mode: GroupingMode;
+		// Name of the profile in `profiles` used for file name grouping;
+		// null for the built-in suffix rules
+		profile: string | null;
+		profiles: Record<string, GroupingProfile>;
+	};
+	// Cut a single input into deliveries after classification and extract
+	// each on its own
+	segmentation: {
+		enabled: boolean;
+	};
+	// Find pages and groups repeated across a batch
+	duplicates: {
+		enabled: boolean;
+		action: DuplicateAction;
+		// Largest perceptual hash distance (of 256 bits) for two scans to
+		// count as the same image
+		maxHashDistance: number;
+	};
+	// Decode barcodes locally and check them against extracted references
+	barcodes: {
+		enabled: boolean;
+		// Fill references the model left empty with decoded values
+		fillMissingReferences: boolean;
+	};
+	// Cut scans holding several documents (two A5 slips on A4) apart
+	pageSplitting: {
+		enabled: boolean;
+		// Narrowest empty gutter between documents, as a fraction of the page
+		minGap: number;
+		// Smallest share of the page's ink each document must carry
+		minInkShare: number;
+	};
+	// Classify obvious pages (blank, invoices, keyword matches) locally
+	preClassification: {
+		enabled: boolean;
+		// Grayscale standard deviation below which a page without text is blank
+		blankMaxStdDev: number;
+	};
+	// Send the PDF text layer of digital pages along with the images
+	textLayer: {
+		enabled: boolean;
+		// Longer text layers are truncated in the prompt
+		maxCharsPerPage: number;
+	};
+	// Run extraction several times and vote field by field
+	ensemble: {
+		enabled: boolean;
+		// Empty means the extraction model only
+		models: string[];
+		samples: number;
+		// Subtracted from confidence per disagreeing field
+		disagreementPenalty: number;
+	};
+	// Keyed by model id; models without an entry are costed at 0
+	pricing: Record<string, ModelPricing>;
+	fewShot: {
+		enabled: boolean;
+		// Library root with one directory per example (example.json + pages)
+		dir: string;
+		maxExamples: number;
+	};
+	prompts: {
+		// Registry root, laid out as <dir>/<name>/<version>.md
+		dir: string;
+		classification: string;
+		extraction: string;
+		// Extra {{VARIABLES}} available to every prompt
+		variables: Record<string, string>;
+	};
 }
+
+/**
+ * Partial config merged section by section over the defaults
+ */
+export type TwoPassConfigOverrides = {
+	[K in keyof TwoPassConfig]?: K extends "provider" | "pricing"
+		? TwoPassConfig[K]
+		: Partial<TwoPassConfig[K]>;
+};